@@ -1,10 +1,145 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { FormEvent } from "react";
+import type { ChangeEvent, FormEvent, KeyboardEvent, PointerEvent } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import clsx from "clsx";
+import {
+  BASE_HEIGHT,
+  CONFIRMATION_DEPTH,
+  DEFAULT_QUOTE_ALLOWANCE,
+  DESK_ADDRESS,
+  accountOf,
+  advanceMempool,
+  balanceOf,
+  computeLedgerState,
+  confirmationsOf,
+  createChainDataSource,
+  explorerAddresses,
+  extendBlock,
+  faucetCredit,
+  faucetDripAmount,
+  faucetPolicy,
+  isIssuer,
+  isQueued,
+  mempoolStage,
+  nextNonce,
+  quoteBalanceOf,
+  replaySchedule,
+  validatorAgents,
+  verifyBlock
+} from "./chain";
+import type { BlockEntry, CandleEntry, FaucetEntry, LedgerEntry, OrderBook, ReplayStep, TickEntry, TradeFill } from "./chain";
+import { LedgerTable } from "./components/LedgerTable";
+import type { LedgerColumn } from "./components/LedgerTable";
+import { ADDRESS_PAGE_SIZE, balanceHistory, involvesAddress, topCounterparties } from "./explorer/address";
+import { applyLedgerQuery, readLedgerQuery } from "./explorer/ledgerQuery";
+import { searchExplorer } from "./explorer/search";
+import type { SearchResult } from "./explorer/search";
+import { downloadFile } from "./lib/download";
+import { requestNotificationPermission, showNotification } from "./lib/notifications";
+import { paginate, parsePage } from "./lib/paging";
+import { randomHex } from "./lib/random";
+import { sparklinePoints } from "./lib/sparkline";
+import { TIMEFRAMES, bucketStart, timeframeOf, updateCandles } from "./markets/candles";
+import { alertContext, alertKinds, describeAlertRule, evaluateAlerts } from "./markets/alerts";
+import type { AlertKind, AlertRule } from "./markets/alerts";
+import { bollinger, ema, macd, rsi, sma, vwap } from "./markets/indicators";
+import {
+  DEFAULT_SLIPPAGE_BPS,
+  DESK_FEE_BPS,
+  SLIPPAGE_OPTIONS_BPS,
+  TradeQuoteError,
+  quoteTrade,
+  slippageBetween,
+  toTradeFill,
+  tradeShortfall,
+  worstPrice
+} from "./markets/ticket";
+import type { TradeQuote } from "./markets/ticket";
+import { cumulativeDepth, orderFlowSentiment, spreadOf } from "./markets/orderBook";
+import { buildPortfolio, portfolioSources } from "./markets/portfolio";
+import type { DepthPoint } from "./markets/orderBook";
+import type { CandleSeries, Timeframe } from "./markets/candles";
+import {
+  DEFAULT_CHART_VIEWPORT,
+  DEFAULT_VISIBLE_CANDLES,
+  ZOOM_STEP,
+  panViewport,
+  revealIndex,
+  viewportRange,
+  zoomViewport
+} from "./markets/viewport";
+import type { ChartViewport } from "./markets/viewport";
+import { addressPath, blockPath, parseRoute, routes, txPath, useHistoryRoute, validatorPath } from "./router";
+import { groupBindings, useKeymap } from "./terminal/keymap";
+import type { KeyBinding } from "./terminal/keymap";
+import { completeInput, parseCommand, shellCommands } from "./terminal/shell";
+import { loadAlertRules, saveAlertRules } from "./storage/alerts";
+import { clearSession, loadSession, saveSession } from "./storage/session";
+import type { StoredWallet } from "./storage/session";
+import { exportCandlesCsv, exportJson, exportLedgerCsv, exportSnapshot } from "./storage/export";
+import { SnapshotImportError, formatImportIssue, parseSnapshotImport } from "./storage/import";
+import type { ExportFile } from "./storage/export";
+import {
+  SIGNING_ALGORITHM,
+  generateWalletKeyPair,
+  keyPairFromPrivateKey,
+  signTransfer,
+  verifyTransfer
+} from "./wallet/crypto";
+import type { SignatureCheck, SignedTransfer, TransferPayload, WalletKeyPair } from "./wallet/crypto";
+import { decryptKeystore, encryptKeystore } from "./wallet/keystore";
+import { keyPairFromMnemonic, looksLikeMnemonic } from "./wallet/mnemonic";
+import {
+  UPTIME_WINDOW_SLOTS,
+  applyHeartbeat,
+  initialRoster,
+  personaLog,
+  proposalHistory,
+  validatorCollateral,
+  validatorTelemetry
+} from "./validators/telemetry";
+import type { StatusChange, ValidatorRoster } from "./validators/telemetry";
 
 const TOKEN_NAME = "xLUNAR";
 const TOKEN_TICKER = "$xLNR";
+const BLOCK_BUFFER_SIZE = 64;
+const TICK_BUFFER_SIZE = 8000;
+const STATUS_CHANGE_BUFFER_SIZE = 200;
+const BLOCK_FEED_SIZE = 6;
+const COMMAND_BUFFER_SIZE = 12;
+const EXPLORER_LEDGER_QUERY_PREFIX = "ledger-";
+const OSCILLATOR_PANE_HEIGHT = 96;
+const ORDER_LADDER_DEPTH = 8;
+const TRADE_TAPE_SIZE = 40;
+const TOAST_DURATION_MS = 6000;
+const TOAST_LIMIT = 4;
+const DEPTH_CHART_WIDTH = 360;
+const DEPTH_CHART_HEIGHT = 160;
+const EQUITY_CHART_WIDTH = 560;
+const EQUITY_CHART_HEIGHT = 140;
+
+type Toast = {
+  id: string;
+  title: string;
+  body: string;
+};
+
+type ChartOverlay = "sma" | "ema" | "bollinger" | "vwap" | "volume";
+type ChartOscillator = "none" | "rsi" | "macd";
+
+const chartOverlays: { id: ChartOverlay; label: string }[] = [
+  { id: "sma", label: "SMA 20" },
+  { id: "ema", label: "EMA 9" },
+  { id: "bollinger", label: "BB 20·2" },
+  { id: "vwap", label: "VWAP" },
+  { id: "volume", label: "volume" }
+];
+
+const chartOscillators: { id: ChartOscillator; label: string }[] = [
+  { id: "none", label: "no oscillator" },
+  { id: "rsi", label: "RSI 14" },
+  { id: "macd", label: "MACD 12·26·9" }
+];
 
 type PhantomEvent = "connect" | "disconnect" | "accountChanged";
 
@@ -27,64 +162,11 @@ declare global {
   }
 }
 
-type RouteKey =
-  | "/sys/manifest"
-  | "/validators"
-  | "/blocks"
-  | "/explorer"
-  | "/wallet"
-  | "/faucet"
-  | "/markets";
-
 type CommandEntry = {
   actor: string;
   message: string;
 };
 
-type BlockEntry = {
-  height: number;
-  producer: string;
-  tps: number;
-  latency: number;
-  txCount: number;
-  hash: string;
-  commentary: string;
-  timestamp: string;
-};
-
-type LedgerEntry = {
-  id: string;
-  hash: string;
-  from: string;
-  to: string;
-  amount: number;
-  memo?: string;
-  status: "confirmed" | "pending";
-  timestamp: string;
-  origin: "wallet" | "faucet";
-};
-
-type FaucetEntry = {
-  id: string;
-  amount: number;
-  to: string;
-  timestamp: string;
-  status: "completed" | "pending";
-};
-
-type CandleEntry = {
-  id: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  buyers: number;
-  sellers: number;
-  holders: number;
-  timestamp: string;
-};
-
 const asciiFrameLines = [
   "╔════════════════════════════════════════════════════════════════════════════════╗",
   "║                             0XPROTOCOL TERMINAL v2.3.7                         ║",
@@ -107,87 +189,12 @@ const asciiFrameLines = [
   "╚════════════════════════════════════════════════════════════════════════════════╝"
 ];
 
-const routes: { path: RouteKey; label: string; description: string }[] = [
-  { path: "/sys/manifest", label: "/sys/manifest", description: "network overview" },
-  { path: "/validators", label: "/validators", description: "validator roster" },
-  { path: "/blocks", label: "/blocks", description: "live block feed" },
-  { path: "/explorer", label: "/explorer", description: "ledger + registry" },
-  { path: "/markets", label: "/markets", description: "xLUNAR markets" },
-  { path: "/wallet", label: "/wallet", description: "manage account" },
-  { path: "/faucet", label: "/faucet", description: "claim resources" }
-];
-
-const validatorAgents = [
-  {
-    id: "SYNAPSE",
-    role: "Lead sequencer",
-    persona: "Optimises rollup slots and orchestrates finality checkpoints.",
-    uptime: "99.2%",
-    status: "active"
-  },
-  {
-    id: "HORIZON",
-    role: "Latency diviner",
-    persona: "Balances inter-shard gossip and forecasts congestion windows.",
-    uptime: "98.4%",
-    status: "active"
-  },
-  {
-    id: "KOSMOS",
-    role: "Ethics auditor",
-    persona: "Evaluates proposals for governance and compliance alignment.",
-    uptime: "96.7%",
-    status: "attesting"
-  },
-  {
-    id: "ECHO",
-    role: "Telemetry relay",
-    persona: "Streams attestations and notarises cross-domain receipts.",
-    uptime: "97.8%",
-    status: "active"
-  },
-  {
-    id: "LUMEN",
-    role: "Alignment scribe",
-    persona: "Publishes upgrade records and maintains citizen-readable logs.",
-    uptime: "95.9%",
-    status: "syncing"
-  },
-  {
-    id: "MYCELIA",
-    role: "Mesh expander",
-    persona: "Spawns sovereign rollups and provisions new validator replicas.",
-    uptime: "99.7%",
-    status: "active"
-  }
-];
-
-const explorerAddresses = [
-  {
-    label: "treasury://ecosystem",
-    address: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
-    balance: "1 024 512.4488 xLUNAR",
-    notes: "Ecosystem runway and grant allocations streamed quarterly in $xLNR."
-  },
-  {
-    label: "validator://synapse",
-    address: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
-    balance: "512 128.2234 xLUNAR",
-    notes: "Sequencer collateral locked for epoch rotation."
-  },
-  {
-    label: "citizen://kez",
-    address: "0x59c4b7E7b119c6908E9A6E106D05b98B193cA3Db",
-    balance: "42.0420 xLUNAR",
-    notes: "Community delegate participating in protocol votes."
-  }
-];
-
 const walletShortcuts = [
   "press [g] to generate a fresh address",
   "press [t] to focus the transfer amount",
   "press [p] to connect Phantom",
-  "press [f] to jump to faucet claims"
+  "press [f] to jump to faucet claims",
+  "press [?] to list every binding"
 ];
 
 const commandLogScript: CommandEntry[] = [
@@ -201,70 +208,6 @@ const commandLogScript: CommandEntry[] = [
   { actor: "explorer", message: "Ledger registry indexed and available for queries." }
 ];
 
-const blockCommentaryPool = [
-  "Validator caucus ratified AI-governed governance slate for epoch +1.",
-  "Bridged intents from sovereign rollups synced without contention.",
-  "Dynamic fee curves flattened latency spikes across execution shards.",
-  "Attestation quorum renewed AI alignment directives for community vault.",
-  "Rollup aggregator posted compressed proofs to the settlement bridge.",
-  "Sovereign appchain opt-in completed with deterministic replay checks.",
-  "Citizenship staking set unlocked an additional validator delegate.",
-  "Oracle mesh streamed macro metrics for AI monetary policy tuning.",
-  "Validator rotation triggered a new conversational governance round."
-];
-
-const initialLedger: LedgerEntry[] = [
-  {
-    id: "tx-1",
-    hash: "0x8f3fad9bc2ab394f271d3cc61aa58cc0fe19d2c3a1dd8e7fd1b49ab7c2c3b45",
-    from: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
-    to: "0x59c4b7E7b119c6908E9A6E106D05b98B193cA3Db",
-    amount: 1250.4821,
-    memo: "community grants disbursement",
-    status: "confirmed",
-    timestamp: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
-    origin: "wallet"
-  },
-  {
-    id: "tx-2",
-    hash: "0x5a4d2ef11bcd1771ab2cd9080c1fa5447d92d736ffa190ab6732c1dd8ea45f21",
-    from: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
-    to: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
-    amount: 32000,
-    memo: "epoch collateral refresh",
-    status: "confirmed",
-    timestamp: new Date(Date.now() - 1000 * 60 * 28).toISOString(),
-    origin: "wallet"
-  },
-  {
-    id: "tx-3",
-    hash: "0xc27e19fd01b4e9ab1cc08df73102a671ed8fbc201c5a8d7c3b71a9ef005c44a1",
-    from: "0x000000000000000000000000000000000000000F",
-    to: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
-    amount: 4800.75,
-    memo: "validator performance incentive",
-    status: "confirmed",
-    timestamp: new Date(Date.now() - 1000 * 60 * 11).toISOString(),
-    origin: "faucet"
-  }
-];
-
-const BASE_HEIGHT = 392410;
-
-const randomFrom = <T,>(collection: readonly T[]): T =>
-  collection[Math.floor(Math.random() * collection.length)];
-
-const randomBetween = (min: number, max: number): number =>
-  Math.floor(Math.random() * (max - min + 1)) + min;
-
-const randomHex = (length: number): string => {
-  let output = "";
-  for (let index = 0; index < length; index += 1) {
-    output += Math.floor(Math.random() * 16).toString(16);
-  }
-  return output;
-};
-
 const shortHash = (hash: string): string =>
   `${hash.slice(0, 10)}…${hash.slice(-6)}`;
 
@@ -274,92 +217,137 @@ const formatAmount = (value: number): string =>
 const formatTime = (iso: string): string =>
   new Date(iso).toLocaleTimeString("en-US", { hour12: false });
 
-const formatSigned = (value: number, fractionDigits = 2): string => {
-  const fixed = value.toFixed(fractionDigits);
-  return value >= 0 ? `+${fixed}` : fixed;
+// Local wallets sign everything they spend, so one restored without its private key cannot spend until it is
+// imported again. Only the connected Phantom account queues entries unsigned.
+const localSigner = (wallet: StoredWallet | undefined): { privateKeyJwk: JsonWebKey; publicKey: string } | null =>
+  wallet?.privateKeyJwk && wallet.publicKey ? { privateKeyJwk: wallet.privateKeyJwk, publicKey: wallet.publicKey } : null;
+
+const MISSING_SIGNING_KEY =
+  "This wallet has no signing key loaded; import the keystore/mnemonic to sign before spending from it.";
+
+const mergeLedger = (current: LedgerEntry[], incoming: LedgerEntry[]): LedgerEntry[] => {
+  const known = new Set(current.map((entry) => entry.id));
+  return [...current, ...incoming.filter((entry) => !known.has(entry.id))].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
 };
 
-const CANDLE_INTERVAL_MS = 5000;
-const CANDLE_WINDOW_MINUTES = 5;
-
-const buildCandle = (
-  previous: CandleEntry | null,
-  timestamp: Date,
-  indexSeed = 0
-): CandleEntry => {
-  const open = previous ? previous.close : 12.4 + Math.random() * 0.4;
-  const bullishBias = 0.001 + Math.random() * 0.005;
-  const correction = Math.random() < 0.25 ? Math.random() * 0.002 : 0;
-  const close = Number((open * (1 + bullishBias - correction)).toFixed(4));
-  const high = Number((Math.max(open, close) + Math.random() * 0.25).toFixed(4));
-  const low = Number((Math.min(open, close) - Math.random() * 0.18).toFixed(4));
-  const baseBuyers = previous?.buyers ?? 1880;
-  const baseSellers = previous?.sellers ?? 640;
-  const baseHolders = previous?.holders ?? 24800;
-  const buyers = baseBuyers + randomBetween(18, 52) + (indexSeed % 3);
-  const sellers = Math.max(baseSellers + randomBetween(-8, 24), 540);
-  const holders = baseHolders + randomBetween(28, 96);
-  const volume = randomBetween(4100, 7200) + Math.random() * 320;
-  return {
-    id: `candle-${timestamp.getTime()}-${indexSeed}`,
-    open,
-    high,
-    low,
-    close,
-    volume: Number(volume.toFixed(2)),
-    buyers,
-    sellers,
-    holders,
-    timestamp: timestamp.toISOString()
-  };
+const searchResultPath = (result: SearchResult): string =>
+  result.kind === "tx"
+    ? txPath(result.hash)
+    : result.kind === "block"
+    ? blockPath(result.height)
+    : addressPath(result.address);
+
+const mergeBlocks = (current: BlockEntry[], incoming: BlockEntry[]): BlockEntry[] => {
+  const known = new Set(current.map((block) => block.height));
+  return [...current, ...incoming.filter((block) => !known.has(block.height))]
+    .sort((a, b) => b.height - a.height)
+    .slice(0, BLOCK_BUFFER_SIZE);
 };
 
-const seedCandles = (): CandleEntry[] => {
-  const candles: CandleEntry[] = [];
-  for (let index = 0; index < 24; index += 1) {
-    const minutesAgo = (23 - index) * CANDLE_WINDOW_MINUTES;
-    const timestamp = new Date(Date.now() - minutesAgo * 60_000);
-    const candle = buildCandle(candles[index - 1] ?? null, timestamp, index);
-    candles.push(candle);
-  }
-  return candles;
+// Links a live block onto the local block at the height below it, so a feed that already runs ahead (for example
+// after an imported replay) keeps its height order instead of chaining the live block onto the wrong head.
+const acceptLiveBlock = (current: BlockEntry[], block: BlockEntry, included: string[]): BlockEntry[] => {
+  const parent = current.find((entry) => entry.height === block.height - 1) ?? null;
+  return mergeBlocks(
+    current.filter((entry) => entry.height !== block.height),
+    [extendBlock(block, parent, included)]
+  );
 };
 
-const buildBlock = (height: number, date = new Date()): BlockEntry => {
-  const producer = randomFrom(validatorAgents).id;
-  const latency = randomBetween(320, 460) / 1000;
-  const tps = randomBetween(88000, 112000);
-  const txCount = randomBetween(1800, 2600);
-  return {
-    height,
-    producer,
-    tps,
-    latency,
-    txCount,
-    hash: `0x${randomHex(64)}`,
-    commentary: randomFrom(blockCommentaryPool),
-    timestamp: date.toISOString()
-  };
+const mergeTicks = (current: TickEntry[], incoming: TickEntry[]): TickEntry[] => {
+  const known = new Set(current.map((tick) => tick.id));
+  return [...current, ...incoming.filter((tick) => !known.has(tick.id))]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-TICK_BUFFER_SIZE);
 };
 
-export default function App() {
-  const [activeRoute, setActiveRoute] = useState<RouteKey>("/sys/manifest");
-  const [blocks, setBlocks] = useState<BlockEntry[]>(() => {
-    const now = Date.now();
-    return Array.from({ length: 6 }, (_, index) =>
-      buildBlock(BASE_HEIGHT - index, new Date(now - index * 5200))
-    );
-  });
-  const blockHeightRef = useRef(blocks[0]?.height ?? BASE_HEIGHT);
+const placeholderCandle: CandleEntry = {
+  id: "candle-placeholder",
+  open: 0,
+  high: 0,
+  low: 0,
+  close: 0,
+  volume: 0,
+  buyers: 0,
+  sellers: 0,
+  holders: 0,
+  timestamp: new Date(0).toISOString()
+};
+
+// Nulls break the line, so warm-up windows and gaps are left blank instead of interpolated.
+const seriesPath = (
+  series: (number | null)[],
+  mapX: (index: number) => number,
+  mapY: (value: number) => number
+): string =>
+  series
+    .map((value, index) => {
+      if (value === null) return "";
+      const command = index > 0 && series[index - 1] !== null ? "L" : "M";
+      return `${command}${mapX(index).toFixed(1)} ${mapY(value).toFixed(1)}`;
+    })
+    .filter(Boolean)
+    .join(" ");
+
+// Steps outwards from the touch: each level first rises to its cumulative total, then runs to the next price.
+const depthArea = (points: DepthPoint[], mapX: (price: number) => number, mapY: (total: number) => number): string => {
+  if (points.length === 0) return "";
+  const steps = points.flatMap((point, index) => [
+    `${mapX(point.price).toFixed(1)} ${mapY(index === 0 ? 0 : points[index - 1].total).toFixed(1)}`,
+    `${mapX(point.price).toFixed(1)} ${mapY(point.total).toFixed(1)}`
+  ]);
+  const last = points[points.length - 1];
+  return `M${steps.join(" L")} L${mapX(last.price).toFixed(1)} ${mapY(0).toFixed(1)} Z`;
+};
 
-  const [candles, setCandles] = useState<CandleEntry[]>(() => seedCandles());
+const formatAxisTime = (iso: string, timeframe: Timeframe): string =>
+  timeframe === "1d"
+    ? new Date(iso).toLocaleDateString(undefined, { month: "short", day: "2-digit" })
+    : new Date(iso).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+const formatSigned = (value: number, fractionDigits = 2): string => {
+  const fixed = value.toFixed(fractionDigits);
+  return value >= 0 ? `+${fixed}` : fixed;
+};
 
-  const [ledger, setLedger] = useState<LedgerEntry[]>(initialLedger);
-  const [walletAddress, setWalletAddress] = useState<string>("");
-  const [walletBalance, setWalletBalance] = useState<number>(0);
+export default function App() {
+  const { route: currentRoute, navigate, followLink } = useHistoryRoute();
+  const activeRoute = currentRoute.key;
+  const [chainSourceLabel, setChainSourceLabel] = useState<string>("connecting");
+  const [blocks, setBlocks] = useState<BlockEntry[]>([]);
+  const [ticks, setTicks] = useState<TickEntry[]>([]);
+  const [orderBook, setOrderBook] = useState<OrderBook | null>(null);
+  const [validatorRoster, setValidatorRoster] = useState<ValidatorRoster>(initialRoster);
+  const [statusChanges, setStatusChanges] = useState<StatusChange[]>([]);
+  const [restoredSession] = useState(() => loadSession());
+  const [ledger, setLedger] = useState<LedgerEntry[]>(() => restoredSession?.ledger ?? []);
+  const [wallets, setWallets] = useState<StoredWallet[]>(() => restoredSession?.wallets ?? []);
+  const [walletAddress, setWalletAddress] = useState<string>(() => restoredSession?.activeWallet ?? "");
+  const [ledgerAccountFilter, setLedgerAccountFilter] = useState<string>("active");
   const [walletRecipient, setWalletRecipient] = useState<string>("");
   const [walletAmount, setWalletAmount] = useState<string>("0.0000");
   const [walletMemo, setWalletMemo] = useState<string>("");
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [activeOverlays, setActiveOverlays] = useState<ChartOverlay[]>(["sma", "volume"]);
+  const [chartOscillator, setChartOscillator] = useState<ChartOscillator>("rsi");
+  const [chartViewport, setChartViewport] = useState<ChartViewport>(DEFAULT_CHART_VIEWPORT);
+  const [chartCursor, setChartCursor] = useState<number | null>(null);
+  const [chartPointerY, setChartPointerY] = useState<number | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [alertKind, setAlertKind] = useState<AlertKind>("price-above");
+  const [alertThreshold, setAlertThreshold] = useState<string>("");
+  const [alertNotify, setAlertNotify] = useState(false);
+  const [alertFeedback, setAlertFeedback] = useState<string | null>(null);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [tradeSide, setTradeSide] = useState<TradeFill["side"]>("buy");
+  const [tradeSize, setTradeSize] = useState<string>("");
+  const [tradeSlippageBps, setTradeSlippageBps] = useState<number>(DEFAULT_SLIPPAGE_BPS);
+  const [tradeReview, setTradeReview] = useState<TradeQuote | null>(null);
+  const [tradeError, setTradeError] = useState<string | null>(null);
+  const [tradeFeedback, setTradeFeedback] = useState<string | null>(null);
+  const ledgerRef = useRef(ledger);
   const [walletFeedback, setWalletFeedback] = useState<string | null>(null);
   const [walletError, setWalletError] = useState<string | null>(null);
 
@@ -368,49 +356,204 @@ export default function App() {
   const [phantomConnecting, setPhantomConnecting] = useState(false);
   const [phantomError, setPhantomError] = useState<string | null>(null);
 
-  const [faucetHistory, setFaucetHistory] = useState<FaucetEntry[]>([]);
+  const [faucetHistory, setFaucetHistory] = useState<FaucetEntry[]>(
+    () => restoredSession?.faucetHistory ?? []
+  );
   const [isFaucetPending, setIsFaucetPending] = useState(false);
 
   const [commandBuffer, setCommandBuffer] = useState<CommandEntry[]>(
     commandLogScript.slice(0, 4)
   );
   const commandCursor = useRef(4);
+  const feedLinesRef = useRef<HTMLDivElement>(null);
 
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
+  const [explorerQuery, setExplorerQuery] = useState<string>("");
+  const [explorerSearchError, setExplorerSearchError] = useState<string | null>(null);
+
+  const [shellInput, setShellInput] = useState<string>("");
+  const [shellHistory, setShellHistory] = useState<string[]>([]);
+  const [shellHistoryCursor, setShellHistoryCursor] = useState<number | null>(null);
+
+  const [keystorePassword, setKeystorePassword] = useState<string>("");
+  const [importSecret, setImportSecret] = useState<string>("");
+  const [keystoreBusy, setKeystoreBusy] = useState(false);
+
+  const [snapshotMode, setSnapshotMode] = useState<"merge" | "replace">("merge");
+  const [snapshotReplay, setSnapshotReplay] = useState(false);
+  const [snapshotFeedback, setSnapshotFeedback] = useState<string | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [snapshotIssues, setSnapshotIssues] = useState<string[]>([]);
+  const [replayProgress, setReplayProgress] = useState<{ delivered: number; total: number } | null>(null);
+  const replayTimerRef = useRef<number | null>(null);
+  const heldBlocksRef = useRef<{ block: BlockEntry; included: string[] }[]>([]);
+  const lastTickRef = useRef<TickEntry | null>(null);
+  const validatorRosterRef = useRef<ValidatorRoster>(validatorRoster);
+  const chartRef = useRef<SVGSVGElement | null>(null);
+  const chartDragRef = useRef<{ x: number; viewport: ChartViewport } | null>(null);
+  const alertRulesRef = useRef(alertRules);
+  const alertStateRef = useRef(new Map<string, boolean>());
+
+  const [keymapOpen, setKeymapOpen] = useState(false);
+  const focusWalletAmountRef = useRef(false);
 
   const appendCommand = useCallback((actor: string, message: string) => {
-    setCommandBuffer((prev) => [...prev.slice(-7), { actor, message }]);
+    setCommandBuffer((prev) => [...prev.slice(-(COMMAND_BUFFER_SIZE - 1)), { actor, message }]);
   }, []);
 
+  const rememberWallet = useCallback(
+    (
+      address: string,
+      details: Partial<Pick<StoredWallet, "label" | "publicKey" | "privateKeyJwk">> = {}
+    ) => {
+      setWallets((prev) =>
+        prev.some((wallet) => wallet.address === address)
+          ? prev
+          : [
+              ...prev,
+              {
+                address,
+                label: details.label ?? `wallet-${prev.length + 1}`,
+                createdAt: new Date().toISOString(),
+                publicKey: details.publicKey ?? null,
+                privateKeyJwk: details.privateKeyJwk ?? null
+              }
+            ]
+      );
+    },
+    []
+  );
+
+  const activeWallet = useMemo(
+    () => wallets.find((wallet) => wallet.address === walletAddress) ?? null,
+    [walletAddress, wallets]
+  );
+  const ledgerState = useMemo(() => computeLedgerState(ledger), [ledger]);
+  const tipHeight = blocks[0]?.height ?? BASE_HEIGHT;
+  const mempoolEntries = useMemo(() => ledger.filter((entry) => entry.status === "pending"), [ledger]);
+
+  useEffect(() => {
+    ledgerRef.current = ledger;
+  }, [ledger]);
+  const walletBalance = walletAddress ? balanceOf(ledgerState, walletAddress) : 0;
+  const walletQuote = walletAddress ? quoteBalanceOf(ledgerState, walletAddress) : 0;
+  const deskAccount = accountOf(ledgerState, DESK_ADDRESS);
+
+  useEffect(() => {
+    if (wallets.length === 0 && faucetHistory.length === 0) {
+      clearSession();
+      return;
+    }
+    saveSession({ activeWallet: walletAddress || null, wallets, ledger, faucetHistory });
+  }, [faucetHistory, ledger, walletAddress, wallets]);
+
+  useEffect(() => {
+    if (restoredSession) {
+      appendCommand(
+        "storage",
+        `restored ${restoredSession.wallets.length} wallet${restoredSession.wallets.length === 1 ? "" : "s"} and ${restoredSession.ledger.length} ledger events`
+      );
+      if (restoredSession.wallets.some((wallet) => wallet.publicKey)) {
+        appendCommand("storage", "signing keys are not persisted; import a keystore to sign from a restored wallet");
+      }
+    }
+  }, [appendCommand, restoredSession]);
+
   useEffect(() => {
     const interval = window.setInterval(() => {
       const next = commandLogScript[commandCursor.current % commandLogScript.length];
       commandCursor.current = (commandCursor.current + 1) % commandLogScript.length;
-      setCommandBuffer((prev) => [...prev.slice(-7), next]);
+      setCommandBuffer((prev) => [...prev.slice(-(COMMAND_BUFFER_SIZE - 1)), next]);
     }, 6200);
 
     return () => window.clearInterval(interval);
   }, []);
 
   useEffect(() => {
-    const interval = window.setInterval(() => {
-      blockHeightRef.current += 1;
-      const block = buildBlock(blockHeightRef.current);
-      setBlocks((prev) => [block, ...prev.slice(0, 5)]);
-      appendCommand(
-        "blocks",
-        `height ${block.height.toLocaleString()} finalised by ${block.producer}`
-      );
-    }, 5800);
+    const source = createChainDataSource();
+    const unsubscribers: (() => void)[] = [];
+    let cancelled = false;
+    setChainSourceLabel(source.label);
 
-    return () => window.clearInterval(interval);
+    source
+      .loadSnapshot()
+      .then((snapshot) => {
+        if (cancelled) return;
+        setBlocks(snapshot.blocks.slice(0, BLOCK_BUFFER_SIZE));
+        setLedger((prev) => mergeLedger(prev, snapshot.ledger));
+        setTicks(snapshot.ticks.slice(-TICK_BUFFER_SIZE));
+        lastTickRef.current = snapshot.ticks[snapshot.ticks.length - 1] ?? null;
+        appendCommand("net", `chain snapshot loaded from ${source.label}`);
+
+        unsubscribers.push(
+          source.subscribeBlocks((block) => {
+            const included = new Set(ledgerRef.current.filter(isQueued).map((entry) => entry.id));
+            setLedger((prev) => advanceMempool(prev, included, block.height));
+            if (replayTimerRef.current !== null) {
+              heldBlocksRef.current.push({ block, included: [...included] });
+              return;
+            }
+            setBlocks((prev) => acceptLiveBlock(prev, block, [...included]));
+            appendCommand(
+              "blocks",
+              `height ${block.height.toLocaleString()} finalised by ${block.producer}`
+            );
+          }),
+          source.subscribeLedger((entry) => {
+            setLedger((prev) => (prev.some((tx) => tx.id === entry.id) ? prev : [entry, ...prev]));
+          }),
+          source.subscribeTicks((tick) => {
+            const previous = lastTickRef.current;
+            lastTickRef.current = tick;
+            setTicks((prev) => [...prev.slice(-(TICK_BUFFER_SIZE - 1)), tick]);
+            const closedMinute = previous ? bucketStart(Date.parse(previous.timestamp), "1m") : null;
+            if (previous && closedMinute !== bucketStart(Date.parse(tick.timestamp), "1m")) {
+              appendCommand(
+                "markets",
+                `1m candle ${formatTime(new Date(closedMinute ?? 0).toISOString())} closed ${previous.price.toFixed(4)} ${TOKEN_TICKER} (last fill ${previous.side} ${previous.volume.toFixed(2)})`
+              );
+            }
+          }),
+          source.subscribeOrderBook((book) => setOrderBook(book)),
+          source.subscribeHeartbeats((heartbeat) => {
+            const previous = validatorRosterRef.current[heartbeat.validator];
+            const next = applyHeartbeat(validatorRosterRef.current, heartbeat);
+            validatorRosterRef.current = next;
+            setValidatorRoster(next);
+            if (previous && previous.status !== heartbeat.status) {
+              const change = {
+                validator: heartbeat.validator,
+                from: previous.status,
+                to: heartbeat.status,
+                timestamp: heartbeat.timestamp
+              };
+              setStatusChanges((prev) => [change, ...prev.slice(0, STATUS_CHANGE_BUFFER_SIZE - 1)]);
+              appendCommand("validators", `${heartbeat.validator} ${previous.status} → ${heartbeat.status}`);
+            }
+          })
+        );
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        appendCommand(
+          "net",
+          `chain source ${source.label} unavailable: ${error instanceof Error ? error.message : "unknown error"}`
+        );
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      source.dispose();
+    };
   }, [appendCommand]);
 
   useEffect(() => {
-    if (blocks[0]) {
-      blockHeightRef.current = Math.max(blockHeightRef.current, blocks[0].height);
+    const feed = feedLinesRef.current;
+    if (feed) {
+      feed.scrollTop = feed.scrollHeight;
     }
-  }, [blocks]);
+  }, [commandBuffer]);
 
   useEffect(() => {
     if (!copiedAddress) return;
@@ -418,23 +561,6 @@ export default function App() {
     return () => window.clearTimeout(timeout);
   }, [copiedAddress]);
 
-  useEffect(() => {
-    const interval = window.setInterval(() => {
-      setCandles((previousCandles) => {
-        const latest = previousCandles[previousCandles.length - 1] ?? null;
-        const next = buildCandle(latest, new Date(), previousCandles.length + 1);
-        const nextCandles = [...previousCandles.slice(-23), next];
-        appendCommand(
-          "markets",
-          `5m candle ${next.id.split("-").at(-1)} closed ${next.close.toFixed(4)} ${TOKEN_TICKER} (buyers ${next.buyers})`
-        );
-        return nextCandles;
-      });
-    }, CANDLE_INTERVAL_MS);
-
-    return () => window.clearInterval(interval);
-  }, [appendCommand]);
-
   useEffect(() => {
     const provider = window.solana;
     if (!provider || !provider.isPhantom) {
@@ -448,8 +574,8 @@ export default function App() {
       const key = publicKey?.toString?.() ?? provider.publicKey?.toString?.();
       if (key) {
         setPhantomAddress(key);
+        rememberWallet(key, { label: "phantom" });
         setWalletAddress(key);
-        setWalletBalance((prev) => (prev === 0 ? 640.42 : prev));
         setWalletFeedback(`Phantom connected: ${key.slice(0, 10)}…${key.slice(-6)} now active.`);
         appendCommand("wallet", `linked Phantom ${key.slice(0, 10)}…${key.slice(-6)}`);
       }
@@ -479,7 +605,7 @@ export default function App() {
       provider.off?.("connect", handleConnect);
       provider.off?.("disconnect", handleDisconnect);
     };
-  }, [appendCommand]);
+  }, [appendCommand, rememberWallet]);
 
   const firstRouteChange = useRef(true);
   useEffect(() => {
@@ -487,8 +613,8 @@ export default function App() {
       firstRouteChange.current = false;
       return;
     }
-    appendCommand("ui", `navigated to ${activeRoute}`);
-  }, [activeRoute, appendCommand]);
+    appendCommand("ui", `navigated to ${currentRoute.path}`);
+  }, [currentRoute.path, appendCommand]);
 
   const networkStats = useMemo(() => {
     const latestHeight = blocks[0]?.height ?? BASE_HEIGHT;
@@ -507,10 +633,354 @@ export default function App() {
     };
   }, [blocks, ledger, faucetHistory]);
 
+  const validators = useMemo(() => validatorTelemetry(blocks, validatorRoster), [blocks, validatorRoster]);
+
+  const routeDetail = currentRoute.detail;
+
+  const selectedBlock = useMemo(() => {
+    if (routeDetail?.kind !== "block") return null;
+    const index = blocks.findIndex((block) => block.height === routeDetail.height);
+    if (index === -1) return null;
+    const block = blocks[index];
+    const ledgerById = new Map(ledger.map((entry) => [entry.id, entry]));
+    return {
+      block,
+      verification: verifyBlock(block, blocks[index + 1] ?? null),
+      transactions: block.txIds.map((id) => ({ id, entry: ledgerById.get(id) ?? null }))
+    };
+  }, [blocks, ledger, routeDetail]);
+
+  const selectedValidator = useMemo(() => {
+    if (routeDetail?.kind !== "validator") return null;
+    const telemetry = validators.find((entry) => entry.id.toLowerCase() === routeDetail.id.toLowerCase());
+    if (!telemetry) return null;
+    return {
+      telemetry,
+      genesisStatus: validatorAgents.find((agent) => agent.id === telemetry.id)?.status ?? telemetry.status,
+      collateral: validatorCollateral(telemetry.id),
+      proposals: proposalHistory(blocks, telemetry.id),
+      personaLog: personaLog(blocks, telemetry.id),
+      changes: statusChanges.filter((change) => change.validator === telemetry.id)
+    };
+  }, [blocks, routeDetail, statusChanges, validators]);
+
+  const selectedTransaction = useMemo(() => {
+    if (routeDetail?.kind !== "tx") return null;
+    const hash = routeDetail.hash.toLowerCase();
+    return ledger.find((entry) => entry.hash.toLowerCase() === hash) ?? null;
+  }, [ledger, routeDetail]);
+
+  const [signatureCheck, setSignatureCheck] = useState<SignatureCheck | "checking" | null>(null);
+  useEffect(() => {
+    if (!selectedTransaction) {
+      setSignatureCheck(null);
+      return;
+    }
+    let cancelled = false;
+    setSignatureCheck("checking");
+    verifyTransfer(selectedTransaction).then((result) => {
+      if (!cancelled) setSignatureCheck(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTransaction]);
+
+  const selectedAddress = useMemo(() => {
+    if (routeDetail?.kind !== "address") return null;
+    const address = routeDetail.address.toLowerCase();
+    const registry =
+      explorerAddresses.find(
+        (entry) => entry.address.toLowerCase() === address || entry.label === routeDetail.address
+      ) ?? null;
+    const resolved = registry?.address ?? routeDetail.address;
+    const entries = ledger.filter((entry) => involvesAddress(entry, resolved));
+    const { inflow, outflow } = accountOf(ledgerState, resolved);
+    const history = balanceHistory(ledger, resolved).map((point) => point.balance);
+    return {
+      address: resolved,
+      label: registry?.label ?? wallets.find((wallet) => wallet.address === resolved)?.label ?? "address",
+      registry,
+      history,
+      counterparties: topCounterparties(ledger, resolved),
+      page: paginate(entries, parsePage(currentRoute.query.get("page")), ADDRESS_PAGE_SIZE),
+      total: entries.length,
+      inflow,
+      outflow
+    };
+  }, [currentRoute.query, ledger, ledgerState, routeDetail, wallets]);
+
+  const describeBalance = useCallback(
+    (address: string) =>
+      isIssuer(address)
+        ? `issuer · ${formatAmount(ledgerState.issued)} ${TOKEN_TICKER} minted`
+        : `${formatAmount(balanceOf(ledgerState, address))} ${TOKEN_TICKER}`,
+    [ledgerState]
+  );
+
+  const walletLedger = useMemo(() => {
+    const owned = new Set(wallets.map((wallet) => wallet.address));
+    const scope =
+      ledgerAccountFilter === "all" ? null : ledgerAccountFilter === "active" ? walletAddress : ledgerAccountFilter;
+    return ledger.flatMap((entry) => {
+      const accounts = scope
+        ? [entry.from, entry.to].filter((address) => address === scope)
+        : [entry.from, entry.to].filter((address) => owned.has(address));
+      return Array.from(new Set(accounts)).map((account) => {
+        const direction: "in" | "out" = entry.from === account ? "out" : "in";
+        return { entry, account, direction, counterparty: direction === "out" ? entry.to : entry.from };
+      });
+    });
+  }, [ledger, ledgerAccountFilter, walletAddress, wallets]);
+
+  const replaceQuery = useCallback(
+    (next: URLSearchParams) => {
+      const search = next.toString();
+      navigate(search ? `${currentRoute.path}?${search}` : currentRoute.path, { replace: true });
+    },
+    [currentRoute.path, navigate]
+  );
+
+  const explorerLedger = useMemo(
+    () => applyLedgerQuery(ledger, (entry) => entry, readLedgerQuery(currentRoute.query, EXPLORER_LEDGER_QUERY_PREFIX)),
+    [currentRoute.query, ledger]
+  );
+
+  const saveExport = useCallback(
+    (file: ExportFile, count: number) => {
+      downloadFile(file.filename, file.content, file.type);
+      appendCommand("export", `${file.filename} · ${count} rows`);
+    },
+    [appendCommand]
+  );
+
+  // Live blocks that arrived during a replay join the feed by height once it ends.
+  const releaseHeldBlocks = useCallback(() => {
+    const held = [...heldBlocksRef.current].sort((a, b) => a.block.height - b.block.height);
+    heldBlocksRef.current = [];
+    if (held.length === 0) return;
+    setBlocks((prev) => held.reduce((acc, { block, included }) => acceptLiveBlock(acc, block, included), prev));
+    appendCommand("replay", `released ${held.length} live block${held.length === 1 ? "" : "s"} held during replay`);
+  }, [appendCommand]);
+
+  const stopReplay = useCallback(() => {
+    if (replayTimerRef.current !== null) {
+      window.clearTimeout(replayTimerRef.current);
+      replayTimerRef.current = null;
+    }
+    setReplayProgress(null);
+    releaseHeldBlocks();
+  }, [releaseHeldBlocks]);
+
+  // Live blocks are held back while a replay timer is pending so the feed shows only the imported cadence; the
+  // mempool keeps advancing on them in the meantime.
+  const startReplay = useCallback(
+    (steps: ReplayStep[]) => {
+      stopReplay();
+      const advance = (index: number) => {
+        if (index >= steps.length) {
+          replayTimerRef.current = null;
+          setReplayProgress(null);
+          appendCommand("replay", `replay finished after ${steps.length} blocks`);
+          releaseHeldBlocks();
+          return;
+        }
+        replayTimerRef.current = window.setTimeout(() => {
+          const { block } = steps[index];
+          setBlocks((prev) => mergeBlocks(prev.filter((entry) => entry.height !== block.height), [block]));
+          setReplayProgress({ delivered: index + 1, total: steps.length });
+          appendCommand("replay", `block #${block.height.toLocaleString()} replayed from ${block.producer}`);
+          advance(index + 1);
+        }, steps[index].delay);
+      };
+      setReplayProgress({ delivered: 0, total: steps.length });
+      advance(0);
+    },
+    [appendCommand, releaseHeldBlocks, stopReplay]
+  );
+
+  useEffect(() => stopReplay, [stopReplay]);
+
+  const handleExportSnapshot = useCallback(() => {
+    saveExport(exportSnapshot({ ledger, blocks, ticks }), ledger.length + blocks.length + ticks.length);
+  }, [blocks, ledger, saveExport, ticks]);
+
+  const handleImportSnapshot = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const { datasets, counts, snapshot } = parseSnapshotImport(await file.text());
+        const replace = snapshotMode === "replace";
+        if (datasets.includes("ledger")) {
+          setLedger((prev) => mergeLedger(replace ? [] : prev, snapshot.ledger));
+        }
+        if (datasets.includes("candles") || datasets.includes("ticks")) {
+          setTicks((prev) => mergeTicks(replace ? [] : prev, snapshot.ticks));
+        }
+        if (datasets.includes("blocks")) {
+          if (replace || snapshotReplay) setBlocks([]);
+          if (snapshotReplay) {
+            startReplay(replaySchedule(snapshot.blocks));
+          } else {
+            stopReplay();
+            setBlocks((prev) => mergeBlocks(replace ? [] : prev, snapshot.blocks));
+          }
+        }
+        const summary = datasets.map((dataset) => `${counts[dataset] ?? 0} ${dataset}`).join(", ");
+        setSnapshotIssues([]);
+        setSnapshotError(null);
+        setSnapshotFeedback(
+          `${replace ? "Replaced" : "Merged"} ${summary} from ${file.name}${
+            snapshotReplay && datasets.includes("blocks") ? "; replaying blocks at their original cadence" : ""
+          }.`
+        );
+        appendCommand("import", `${file.name} · ${summary} (${snapshotMode})`);
+      } catch (error) {
+        setSnapshotFeedback(null);
+        setSnapshotError(error instanceof Error ? `${file.name}: ${error.message}` : `Unable to import ${file.name}.`);
+        setSnapshotIssues(error instanceof SnapshotImportError ? error.issues.map(formatImportIssue) : []);
+      }
+    },
+    [appendCommand, snapshotMode, snapshotReplay, startReplay, stopReplay]
+  );
+
+  const renderAddressLink = useCallback(
+    (address: string, label = shortHash(address)) => (
+      <a href={addressPath(address)} className="route-link" onClick={(event) => followLink(event, addressPath(address))}>
+        {label}
+      </a>
+    ),
+    [followLink]
+  );
+
+  const renderTxLink = useCallback(
+    (hash: string) => (
+      <a href={txPath(hash)} className="route-link" onClick={(event) => followLink(event, txPath(hash))}>
+        {shortHash(hash)}
+      </a>
+    ),
+    [followLink]
+  );
+
+  const explorerLedgerColumns = useMemo<LedgerColumn<LedgerEntry>[]>(
+    () => [
+      { key: "hash", header: "Hash", render: (entry) => renderTxLink(entry.hash) },
+      { key: "from", header: "From", render: (entry) => renderAddressLink(entry.from) },
+      { key: "to", header: "To", render: (entry) => renderAddressLink(entry.to) },
+      {
+        key: "amount",
+        header: "Amount",
+        sort: "amount",
+        render: (entry) => `${formatAmount(entry.amount)} ${TOKEN_TICKER}`
+      },
+      { key: "memo", header: "Memo", render: (entry) => entry.memo ?? "—" },
+      {
+        key: "status",
+        header: "Status",
+        render: (entry) => <span className={clsx("status-pill", entry.origin)}>{entry.status}</span>
+      },
+      { key: "time", header: "Time", sort: "time", render: (entry) => formatTime(entry.timestamp) }
+    ],
+    [renderAddressLink, renderTxLink]
+  );
+
+  const walletLedgerColumns = useMemo<LedgerColumn<(typeof walletLedger)[number]>[]>(
+    () => [
+      { key: "hash", header: "Hash", render: ({ entry }) => renderTxLink(entry.hash) },
+      {
+        key: "account",
+        header: "Account",
+        render: ({ account }) =>
+          renderAddressLink(account, wallets.find((wallet) => wallet.address === account)?.label || shortHash(account))
+      },
+      {
+        key: "direction",
+        header: "Direction",
+        render: ({ direction }) => <span className={clsx("status-pill", direction)}>{direction}</span>
+      },
+      { key: "counterparty", header: "Counterparty", render: ({ counterparty }) => renderAddressLink(counterparty) },
+      {
+        key: "amount",
+        header: "Amount",
+        sort: "amount",
+        render: ({ entry }) => `${formatAmount(entry.amount)} ${TOKEN_TICKER}`
+      },
+      { key: "memo", header: "Memo", render: ({ entry }) => entry.memo ?? "—" },
+      { key: "status", header: "Status", render: ({ entry }) => entry.status },
+      { key: "time", header: "Time", sort: "time", render: ({ entry }) => formatTime(entry.timestamp) }
+    ],
+    [renderAddressLink, renderTxLink, wallets]
+  );
+
+  const timeframe = timeframeOf(currentRoute.query.get("tf"));
+  const timeframeLabel = TIMEFRAMES.find((entry) => entry.id === timeframe)?.label ?? timeframe;
+  // Live ticks fold into the cached series, so a fill only touches the newest candles of the active timeframe and of
+  // the 5m series the alerts read.
+  const candleSeriesRef = useRef<Partial<Record<Timeframe, CandleSeries>>>({});
+  const candlesFor = useCallback((source: TickEntry[], frame: Timeframe): CandleEntry[] => {
+    const series = updateCandles(candleSeriesRef.current[frame] ?? null, source, frame);
+    candleSeriesRef.current[frame] = series;
+    return series.candles;
+  }, []);
+  const marketCandles = useMemo(() => candlesFor(ticks, timeframe), [candlesFor, ticks, timeframe]);
+  const recentCandles = useMemo(() => marketCandles.slice(-DEFAULT_VISIBLE_CANDLES), [marketCandles]);
+  const chartRange = useMemo(
+    () => viewportRange(chartViewport, marketCandles.length),
+    [chartViewport, marketCandles.length]
+  );
+  const candles = useMemo(
+    () => marketCandles.slice(chartRange.start, chartRange.end),
+    [chartRange.end, chartRange.start, marketCandles]
+  );
+
+  // Indicators run over the full aggregated history so any window the viewport shows is past its warm-up.
+  const indicatorSeries = useMemo(() => {
+    const closes = marketCandles.map((candle) => candle.close);
+    return {
+      sma: sma(closes, 20),
+      ema: ema(closes, 9),
+      bollinger: bollinger(closes, 20, 2),
+      vwap: vwap(marketCandles),
+      rsi: rsi(closes, 14),
+      macd: macd(closes)
+    };
+  }, [marketCandles]);
+  const indicators = useMemo(() => {
+    const visible = <T,>(series: T[]) => series.slice(chartRange.start, chartRange.end);
+    return {
+      sma: visible(indicatorSeries.sma),
+      ema: visible(indicatorSeries.ema),
+      bollinger: visible(indicatorSeries.bollinger),
+      vwap: visible(indicatorSeries.vwap),
+      rsi: visible(indicatorSeries.rsi),
+      macd: visible(indicatorSeries.macd)
+    };
+  }, [chartRange.end, chartRange.start, indicatorSeries]);
+
+  const toggleOverlay = useCallback((overlay: ChartOverlay) => {
+    setActiveOverlays((prev) =>
+      prev.includes(overlay) ? prev.filter((entry) => entry !== overlay) : [...prev, overlay]
+    );
+  }, []);
+
+  const selectTimeframe = useCallback(
+    (next: Timeframe) => {
+      const params = new URLSearchParams(currentRoute.query);
+      params.set("tf", next);
+      replaceQuery(params);
+      setChartViewport(DEFAULT_CHART_VIEWPORT);
+      setChartCursor(null);
+    },
+    [currentRoute.query, replaceQuery]
+  );
+
   const marketStats = useMemo(() => {
-    const latest = candles[candles.length - 1];
-    const previous = candles[candles.length - 2] ?? latest;
-    const sessionOpen = candles[0]?.open ?? latest.open;
+    const latest = recentCandles[recentCandles.length - 1] ?? placeholderCandle;
+    const previous = recentCandles[recentCandles.length - 2] ?? latest;
+    const sessionOpen = recentCandles[0]?.open ?? latest.open;
     const priceChange = latest.close - previous.close;
     const changePercent = previous.close ? (priceChange / previous.close) * 100 : 0;
     const sessionChange = latest.close - sessionOpen;
@@ -518,7 +988,7 @@ export default function App() {
     const buyersDelta = latest.buyers - (previous?.buyers ?? latest.buyers);
     const sellersDelta = latest.sellers - (previous?.sellers ?? latest.sellers);
     const holdersDelta = latest.holders - (previous?.holders ?? latest.holders);
-    const rollingVolume = candles.reduce((acc, entry) => acc + entry.volume, 0);
+    const rollingVolume = recentCandles.reduce((acc, entry) => acc + entry.volume, 0);
     return {
       latest,
       previous,
@@ -530,7 +1000,268 @@ export default function App() {
       holdersDelta,
       rollingVolume
     };
-  }, [candles]);
+  }, [recentCandles]);
+
+  const sentiment = useMemo(() => orderFlowSentiment(orderBook, marketStats.latest), [marketStats.latest, orderBook]);
+  const tradeTape = useMemo(() => ticks.slice(-TRADE_TAPE_SIZE).reverse(), [ticks]);
+
+  const portfolio = useMemo(
+    () => (walletAddress ? buildPortfolio(ledger, walletAddress, ticks, marketStats.latest.close) : null),
+    [ledger, marketStats.latest.close, ticks, walletAddress]
+  );
+
+  const equityView = useMemo(() => {
+    if (!portfolio || portfolio.timeline.length < 2) return null;
+    const { timeline } = portfolio;
+    const first = Date.parse(timeline[0].timestamp);
+    const last = Date.parse(timeline[timeline.length - 1].timestamp);
+    const max = Math.max(...timeline.map((point) => Math.max(point.equity, point.costBasis)), 1);
+    const mapX = (index: number) =>
+      ((Date.parse(timeline[index].timestamp) - first) / Math.max(last - first, 1)) * EQUITY_CHART_WIDTH;
+    const mapY = (value: number) => EQUITY_CHART_HEIGHT - 6 - (value / max) * (EQUITY_CHART_HEIGHT - 12);
+    return {
+      equityPath: seriesPath(timeline.map((point) => point.equity), mapX, mapY),
+      basisPath: seriesPath(timeline.map((point) => point.costBasis), mapX, mapY),
+      max,
+      from: timeline[0].timestamp
+    };
+  }, [portfolio]);
+
+  const alertSnapshot = useMemo(
+    () => alertContext(timeframe === "5m" ? marketCandles : candlesFor(ticks, "5m")),
+    [candlesFor, marketCandles, ticks, timeframe]
+  );
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const pushToast = useCallback(
+    (title: string, body: string) => {
+      const id = `toast-${Date.now().toString(36)}-${randomHex(4)}`;
+      setToasts((prev) => [...prev.slice(-(TOAST_LIMIT - 1)), { id, title, body }]);
+      window.setTimeout(() => dismissToast(id), TOAST_DURATION_MS);
+    },
+    [dismissToast]
+  );
+
+  useEffect(() => {
+    alertRulesRef.current = alertRules;
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    if (!alertSnapshot) return;
+    const { state, triggered } = evaluateAlerts(alertRulesRef.current, alertSnapshot, alertStateRef.current);
+    alertStateRef.current = state;
+    if (triggered.length === 0) return;
+
+    const firedAt = new Date().toISOString();
+    triggered.forEach(({ rule, message }) => {
+      const title = `${TOKEN_NAME} alert · ${describeAlertRule(rule)}`;
+      appendCommand("alerts", `${describeAlertRule(rule)}: ${message}`);
+      pushToast(title, message);
+      if (rule.notify) showNotification(title, message);
+    });
+    const fired = new Set(triggered.map(({ rule }) => rule.id));
+    setAlertRules((prev) => prev.map((rule) => (fired.has(rule.id) ? { ...rule, lastTriggeredAt: firedAt } : rule)));
+  }, [alertSnapshot, appendCommand, pushToast]);
+
+  const handleAddAlert = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const threshold = Number(alertThreshold);
+      if (!alertThreshold.trim() || !Number.isFinite(threshold) || threshold <= 0) {
+        setAlertFeedback("Enter a positive threshold.");
+        return;
+      }
+      const rule: AlertRule = {
+        id: `alert-${Date.now().toString(36)}-${randomHex(4)}`,
+        kind: alertKind,
+        threshold,
+        enabled: true,
+        notify: alertNotify,
+        createdAt: new Date().toISOString(),
+        lastTriggeredAt: null
+      };
+      setAlertRules((prev) => [...prev, rule]);
+      setAlertThreshold("");
+      appendCommand("alerts", `rule added: ${describeAlertRule(rule)}`);
+      if (!alertNotify) {
+        setAlertFeedback(null);
+        return;
+      }
+      const permission = await requestNotificationPermission();
+      setAlertFeedback(
+        permission === "granted" ? null : "Browser notifications are blocked; this rule will only raise in-app toasts."
+      );
+    },
+    [alertKind, alertNotify, alertThreshold, appendCommand]
+  );
+
+  const updateAlertRule = useCallback((id: string, changes: Partial<AlertRule>) => {
+    setAlertRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  }, []);
+
+  const removeAlertRule = useCallback((id: string) => {
+    setAlertRules((prev) => prev.filter((rule) => rule.id !== id));
+  }, []);
+
+  const tradePreview = useMemo((): { quote: TradeQuote | null; error: string | null } => {
+    if (!tradeSize.trim()) return { quote: null, error: null };
+    try {
+      return { quote: quoteTrade(tradeSide, Number(tradeSize), marketStats.latest.close, orderBook), error: null };
+    } catch (error) {
+      return { quote: null, error: error instanceof TradeQuoteError ? error.message : "Unable to quote this trade." };
+    }
+  }, [marketStats.latest.close, orderBook, tradeSide, tradeSize]);
+
+  const handleReviewTrade = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      setTradeFeedback(null);
+      if (!walletAddress) {
+        setTradeError("Generate or select a wallet before trading.");
+        return;
+      }
+      if (!tradePreview.quote) {
+        setTradeError(tradePreview.error ?? "Enter a trade size.");
+        return;
+      }
+      const shortfall = tradeShortfall(
+        tradePreview.quote,
+        accountOf(ledgerState, walletAddress),
+        accountOf(ledgerState, DESK_ADDRESS)
+      );
+      if (shortfall) {
+        setTradeError(shortfall);
+        return;
+      }
+      const signer = localSigner(wallets.find((wallet) => wallet.address === walletAddress));
+      if (tradePreview.quote.side === "sell" && !signer && walletAddress !== phantomAddress) {
+        setTradeError(MISSING_SIGNING_KEY);
+        return;
+      }
+      setTradeError(null);
+      setTradeReview(tradePreview.quote);
+    },
+    [ledgerState, phantomAddress, tradePreview, walletAddress, wallets]
+  );
+
+  // Re-quotes against the market at confirmation time and refuses the fill if it moved past the tolerance.
+  const handleConfirmTrade = useCallback(async () => {
+    if (!tradeReview || !walletAddress) return;
+    let executed: TradeQuote;
+    try {
+      executed = quoteTrade(tradeReview.side, tradeReview.size, marketStats.latest.close, orderBook);
+    } catch (error) {
+      setTradeError(error instanceof TradeQuoteError ? error.message : "Unable to quote this trade.");
+      setTradeReview(null);
+      return;
+    }
+    const slippageBps = slippageBetween(tradeReview, executed);
+    if (slippageBps > tradeSlippageBps) {
+      setTradeError(
+        `Price moved ${slippageBps.toFixed(1)} bps against you, beyond your ${tradeSlippageBps} bps tolerance. Review the trade again.`
+      );
+      setTradeReview(null);
+      return;
+    }
+    const shortfall = tradeShortfall(
+      executed,
+      accountOf(ledgerState, walletAddress),
+      accountOf(ledgerState, DESK_ADDRESS)
+    );
+    if (shortfall) {
+      setTradeError(shortfall);
+      setTradeReview(null);
+      return;
+    }
+
+    const fill = toTradeFill(executed, slippageBps);
+    const from = executed.side === "buy" ? DESK_ADDRESS : walletAddress;
+    const payload: TransferPayload = {
+      from,
+      to: executed.side === "buy" ? walletAddress : DESK_ADDRESS,
+      amount: executed.size,
+      memo: `desk ${executed.side} @ ${fill.price.toFixed(4)}`,
+      nonce: nextNonce(ledger, from)
+    };
+
+    // Sales spend from the wallet, so they are signed like transfers; buys are paid out by the desk.
+    const signer = localSigner(wallets.find((wallet) => wallet.address === walletAddress));
+    if (executed.side === "sell" && !signer && walletAddress !== phantomAddress) {
+      setTradeError(MISSING_SIGNING_KEY);
+      setTradeReview(null);
+      return;
+    }
+    let signed: SignedTransfer | null = null;
+    if (executed.side === "sell" && signer) {
+      try {
+        signed = await signTransfer(signer.privateKeyJwk, signer.publicKey, payload);
+      } catch (error) {
+        setTradeError(error instanceof Error ? `Unable to sign sale: ${error.message}` : "Unable to sign sale.");
+        return;
+      }
+    }
+
+    const hash = signed?.hash ?? `0x${randomHex(64)}`;
+    const entry: LedgerEntry = {
+      id: `desk-${Date.now()}-${randomHex(4)}`,
+      hash,
+      ...payload,
+      status: "pending",
+      timestamp: new Date().toISOString(),
+      origin: "desk",
+      signature: signed?.signature,
+      publicKey: signed?.publicKey,
+      trade: fill
+    };
+    setLedger((prev) => [entry, ...prev]);
+    setTradeReview(null);
+    setTradeSize("");
+    setTradeError(null);
+    setTradeFeedback(
+      `${executed.side === "buy" ? "Bought" : "Sold"} ${formatAmount(executed.size)} ${TOKEN_TICKER} at ${fill.price.toFixed(4)}. Hash ${shortHash(hash)} is queued in the mempool.`
+    );
+    appendCommand(
+      "desk",
+      `${executed.side} ${formatAmount(executed.size)} ${TOKEN_NAME} @ ${fill.price.toFixed(4)} · fee ${fill.fee.toFixed(4)} · slippage ${fill.slippageBps} bps`
+    );
+  }, [
+    appendCommand,
+    ledger,
+    ledgerState,
+    marketStats.latest.close,
+    orderBook,
+    phantomAddress,
+    tradeReview,
+    tradeSlippageBps,
+    walletAddress,
+    wallets
+  ]);
+
+  const bookView = useMemo(() => {
+    if (!orderBook) return null;
+    const bids = cumulativeDepth(orderBook.bids);
+    const asks = cumulativeDepth(orderBook.asks);
+    const low = bids[bids.length - 1]?.price ?? 0;
+    const high = asks[asks.length - 1]?.price ?? 1;
+    const maxTotal = Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0, 1);
+    const mapX = (price: number) => ((price - low) / Math.max(high - low, 0.0001)) * DEPTH_CHART_WIDTH;
+    const mapY = (total: number) => DEPTH_CHART_HEIGHT - (total / maxTotal) * (DEPTH_CHART_HEIGHT - 12);
+    const spread = spreadOf(orderBook);
+    return {
+      bids: bids.slice(0, ORDER_LADDER_DEPTH),
+      asks: asks.slice(0, ORDER_LADDER_DEPTH),
+      maxSize: Math.max(...[...bids, ...asks].slice(0, ORDER_LADDER_DEPTH * 2).map((level) => level.size), 1),
+      spread,
+      bidPath: depthArea(bids, mapX, mapY),
+      askPath: depthArea(asks, mapX, mapY),
+      midX: spread ? mapX(spread.mid) : DEPTH_CHART_WIDTH / 2,
+      maxTotal
+    };
+  }, [orderBook]);
 
   const chartMetrics = useMemo(() => {
     if (candles.length === 0) {
@@ -540,21 +1271,31 @@ export default function App() {
         width: 760,
         height: 240,
         padding: 24,
+        maxVolume: 1,
         xUnit: 24,
         candleWidth: 8
       };
     }
 
-    const min = Math.min(...candles.map((entry) => entry.low));
-    const max = Math.max(...candles.map((entry) => entry.high));
+    const overlayValues = [
+      ...(activeOverlays.includes("sma") ? indicators.sma : []),
+      ...(activeOverlays.includes("ema") ? indicators.ema : []),
+      ...(activeOverlays.includes("vwap") ? indicators.vwap : []),
+      ...(activeOverlays.includes("bollinger")
+        ? indicators.bollinger.flatMap((point) => (point ? [point.upper, point.lower] : []))
+        : [])
+    ].filter((value): value is number => value !== null);
+    const min = Math.min(...candles.map((entry) => entry.low), ...overlayValues);
+    const max = Math.max(...candles.map((entry) => entry.high), ...overlayValues);
+    const maxVolume = Math.max(...candles.map((entry) => entry.volume), 1);
     const width = 760;
     const height = 240;
     const padding = 24;
     const xUnit = (width - padding * 2) / Math.max(candles.length - 1, 1);
     const candleWidth = Math.max(6, xUnit * 0.5);
 
-    return { min, max, width, height, padding, xUnit, candleWidth };
-  }, [candles]);
+    return { min, max, maxVolume, width, height, padding, xUnit, candleWidth };
+  }, [activeOverlays, candles, indicators]);
 
   const priceRange = Math.max(chartMetrics.max - chartMetrics.min, 0.0001);
   const mapX = useCallback(
@@ -569,6 +1310,157 @@ export default function App() {
     [chartMetrics.height, chartMetrics.min, chartMetrics.padding, priceRange]
   );
 
+  const oscillatorRange = useMemo(() => {
+    if (chartOscillator !== "macd") return { min: 0, max: 100 };
+    const extent = Math.max(
+      ...indicators.macd.flatMap((point) =>
+        point ? [Math.abs(point.macd), Math.abs(point.signal ?? 0), Math.abs(point.histogram ?? 0)] : []
+      ),
+      0.0001
+    );
+    return { min: -extent, max: extent };
+  }, [chartOscillator, indicators.macd]);
+  const mapOscillatorY = useCallback(
+    (value: number) => {
+      const inset = chartMetrics.padding / 2;
+      return (
+        OSCILLATOR_PANE_HEIGHT -
+        ((value - oscillatorRange.min) / (oscillatorRange.max - oscillatorRange.min)) *
+          (OSCILLATOR_PANE_HEIGHT - inset * 2) -
+        inset
+      );
+    },
+    [chartMetrics.padding, oscillatorRange]
+  );
+
+  const chartPoint = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = chartRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) return null;
+      return {
+        x: ((clientX - rect.left) / rect.width) * chartMetrics.width,
+        y: ((clientY - rect.top) / rect.height) * chartMetrics.height
+      };
+    },
+    [chartMetrics.height, chartMetrics.width]
+  );
+
+  const focusCandle = useCallback(
+    (index: number) => {
+      const total = marketCandles.length;
+      if (total === 0) return;
+      const next = Math.min(Math.max(index, 0), total - 1);
+      setChartCursor(next);
+      setChartPointerY(null);
+      setChartViewport((prev) => revealIndex(prev, total, next));
+    },
+    [marketCandles.length]
+  );
+
+  const zoomChart = useCallback(
+    (factor: number, anchor: number) =>
+      setChartViewport((prev) => zoomViewport(prev, marketCandles.length, factor, anchor)),
+    [marketCandles.length]
+  );
+
+  const handleChartPointerDown = useCallback(
+    (event: PointerEvent<SVGSVGElement>) => {
+      const point = chartPoint(event.clientX, event.clientY);
+      if (!point) return;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      chartDragRef.current = { x: point.x, viewport: chartViewport };
+    },
+    [chartPoint, chartViewport]
+  );
+
+  const handleChartPointerMove = useCallback(
+    (event: PointerEvent<SVGSVGElement>) => {
+      const point = chartPoint(event.clientX, event.clientY);
+      if (!point || candles.length === 0) return;
+      const drag = chartDragRef.current;
+      if (drag) {
+        const shift = Math.round((point.x - drag.x) / chartMetrics.xUnit);
+        setChartViewport(panViewport(drag.viewport, marketCandles.length, shift));
+        return;
+      }
+      const index = Math.round((point.x - chartMetrics.padding) / chartMetrics.xUnit);
+      setChartCursor(chartRange.start + Math.min(Math.max(index, 0), candles.length - 1));
+      setChartPointerY(Math.min(Math.max(point.y, chartMetrics.padding), chartMetrics.height - chartMetrics.padding));
+    },
+    [candles.length, chartMetrics, chartPoint, chartRange.start, marketCandles.length]
+  );
+
+  const handleChartPointerUp = useCallback((event: PointerEvent<SVGSVGElement>) => {
+    chartDragRef.current = null;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  }, []);
+
+  const handleChartPointerLeave = useCallback(() => {
+    if (chartDragRef.current) return;
+    setChartCursor(null);
+    setChartPointerY(null);
+  }, []);
+
+  const handleChartKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLDivElement>) => {
+      if (event.target !== event.currentTarget) return;
+      const current = chartCursor ?? chartRange.end - 1;
+      const anchor =
+        chartCursor !== null && candles.length > 1 ? (chartCursor - chartRange.start) / (candles.length - 1) : 1;
+      const actions: Record<string, () => void> = {
+        ArrowLeft: () => focusCandle(current - 1),
+        ArrowRight: () => focusCandle(current + 1),
+        Home: () => focusCandle(0),
+        End: () => focusCandle(marketCandles.length - 1),
+        "+": () => zoomChart(1 / ZOOM_STEP, anchor),
+        "=": () => zoomChart(1 / ZOOM_STEP, anchor),
+        "-": () => zoomChart(ZOOM_STEP, anchor),
+        Escape: () => setChartCursor(null)
+      };
+      const action = actions[event.key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    },
+    [candles.length, chartCursor, chartRange.end, chartRange.start, focusCandle, marketCandles.length, zoomChart]
+  );
+
+  // React registers wheel listeners as passive, so zoom attaches its own listener to be able to cancel page scroll.
+  // It hangs off a callback ref because the chart only mounts once the previous route's exit animation finishes.
+  const chartWheelRef = useRef<(event: WheelEvent) => void>(() => undefined);
+  chartWheelRef.current = (event: WheelEvent) => {
+    event.preventDefault();
+    const point = chartPoint(event.clientX, event.clientY);
+    const anchor = point ? (point.x - chartMetrics.padding) / (chartMetrics.width - chartMetrics.padding * 2) : 1;
+    zoomChart(event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor);
+  };
+
+  const handleChartWheel = useCallback((event: WheelEvent) => chartWheelRef.current(event), []);
+  const attachChart = useCallback(
+    (node: SVGSVGElement | null) => {
+      chartRef.current?.removeEventListener("wheel", handleChartWheel);
+      chartRef.current = node;
+      node?.addEventListener("wheel", handleChartWheel, { passive: false });
+    },
+    [handleChartWheel]
+  );
+
+  const cursorIndex =
+    chartCursor !== null && chartCursor >= chartRange.start && chartCursor < chartRange.end
+      ? chartCursor - chartRange.start
+      : null;
+  const cursorCandle = cursorIndex === null ? null : candles[cursorIndex];
+  const cursorPriceY = cursorCandle ? chartPointerY ?? mapY(cursorCandle.close) : null;
+  const cursorPrice =
+    cursorPriceY === null
+      ? null
+      : chartMetrics.min +
+        ((chartMetrics.height - chartMetrics.padding - cursorPriceY) / (chartMetrics.height - chartMetrics.padding * 2)) *
+          priceRange;
+  const timeAxisStep = Math.max(1, Math.ceil(candles.length / 6));
+
   const manifestCards = useMemo(
     () => [
       {
@@ -623,8 +1515,8 @@ export default function App() {
       const key = response.publicKey?.toString?.() ?? provider.publicKey?.toString?.();
       if (key) {
         setPhantomAddress(key);
+        rememberWallet(key, { label: "phantom" });
         setWalletAddress(key);
-        setWalletBalance((prev) => (prev === 0 ? 640.42 : prev));
         setWalletFeedback(`Phantom connected: ${key.slice(0, 10)}…${key.slice(-6)} now active.`);
         setWalletError(null);
         appendCommand("wallet", `connected Phantom ${key.slice(0, 10)}…${key.slice(-6)}`);
@@ -638,7 +1530,7 @@ export default function App() {
     } finally {
       setPhantomConnecting(false);
     }
-  }, [appendCommand]);
+  }, [appendCommand, rememberWallet]);
 
   const handlePhantomDisconnect = useCallback(async () => {
     const provider = window.solana;
@@ -658,78 +1550,310 @@ export default function App() {
     }
   }, [appendCommand]);
 
-  const handleGenerateWallet = useCallback(() => {
-    const address = `0x${randomHex(40)}`;
+  const handleGenerateWallet = useCallback(async () => {
+    let keyPair: WalletKeyPair;
+    try {
+      keyPair = await generateWalletKeyPair();
+    } catch (error) {
+      setWalletError(
+        error instanceof Error ? error.message : "WebCrypto key generation is unavailable in this browser."
+      );
+      setWalletFeedback(null);
+      return;
+    }
+
+    const { address } = keyPair;
+    rememberWallet(address, {
+      publicKey: keyPair.publicKey,
+      privateKeyJwk: keyPair.privateKeyJwk
+    });
+    setLedger((prev) => [faucetCredit(address, faucetPolicy.bootstrapCredit, "wallet bootstrap allocation"), ...prev]);
     setWalletAddress(address);
-    setWalletBalance(512.5);
     setWalletFeedback(
-      `Generated address ${address.slice(0, 10)}…${address.slice(-6)} with 512.50 ${TOKEN_NAME} balance.`
+      `Generated ${SIGNING_ALGORITHM} keypair for ${address.slice(0, 10)}…${address.slice(-6)} and queued a ${formatAmount(faucetPolicy.bootstrapCredit)} ${TOKEN_NAME} bootstrap allocation.`
     );
     setWalletError(null);
     appendCommand("wallet", `generated wallet ${address.slice(0, 10)}…${address.slice(-6)}`);
-  }, [appendCommand]);
+  }, [appendCommand, rememberWallet]);
 
-  const handleWalletSubmit = useCallback(
-    (event: FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
-      if (!walletAddress) {
-        setWalletError("Generate a wallet address before broadcasting a transfer.");
-        setWalletFeedback(null);
-        return;
+  const activateImportedWallet = useCallback(
+    (keyPair: WalletKeyPair, label: string, source: string) => {
+      const existing = wallets.find((wallet) => wallet.address === keyPair.address);
+      rememberWallet(keyPair.address, {
+        label,
+        publicKey: keyPair.publicKey,
+        privateKeyJwk: keyPair.privateKeyJwk
+      });
+      if (existing && !existing.privateKeyJwk) {
+        setWallets((prev) =>
+          prev.map((wallet) =>
+            wallet.address === keyPair.address
+              ? { ...wallet, publicKey: keyPair.publicKey, privateKeyJwk: keyPair.privateKeyJwk }
+              : wallet
+          )
+        );
       }
+      setWalletAddress(keyPair.address);
+      setWalletFeedback(
+        `Imported ${keyPair.address.slice(0, 10)}…${keyPair.address.slice(-6)} from ${source}.`
+      );
+      setWalletError(null);
+      appendCommand("wallet", `imported wallet ${keyPair.address.slice(0, 10)}…${keyPair.address.slice(-6)} from ${source}`);
+    },
+    [appendCommand, rememberWallet, wallets]
+  );
 
-      const parsedAmount = Number(walletAmount.replace(/,/g, ""));
-      if (Number.isNaN(parsedAmount) || parsedAmount <= 0) {
-        setWalletError("Enter a valid transfer amount greater than zero.");
+  const handleExportKeystore = useCallback(async () => {
+    const wallet = wallets.find((entry) => entry.address === walletAddress);
+    if (!wallet?.privateKeyJwk || !wallet.publicKey) {
+      setWalletError("The active wallet has no local key to export.");
+      setWalletFeedback(null);
+      return;
+    }
+
+    setKeystoreBusy(true);
+    try {
+      const keystore = await encryptKeystore(
+        {
+          address: wallet.address,
+          label: wallet.label,
+          publicKey: wallet.publicKey,
+          privateKeyJwk: wallet.privateKeyJwk
+        },
+        keystorePassword
+      );
+      downloadFile(
+        `xprotocol-keystore-${wallet.address.slice(2, 10)}.json`,
+        JSON.stringify(keystore, null, 2),
+        "application/json"
+      );
+      setKeystorePassword("");
+      setWalletFeedback(`Encrypted keystore for ${wallet.label} downloaded.`);
+      setWalletError(null);
+      appendCommand("wallet", `exported keystore for ${wallet.address.slice(0, 10)}…${wallet.address.slice(-6)}`);
+    } catch (error) {
+      setWalletError(error instanceof Error ? error.message : "Unable to export keystore.");
+      setWalletFeedback(null);
+    } finally {
+      setKeystoreBusy(false);
+    }
+  }, [appendCommand, keystorePassword, walletAddress, wallets]);
+
+  const handleImportKeystore = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      setKeystoreBusy(true);
+      try {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(await file.text());
+        } catch {
+          throw new Error(`${file.name} is not valid JSON.`);
+        }
+        const keyPair = await decryptKeystore(payload, keystorePassword);
+        setKeystorePassword("");
+        activateImportedWallet(keyPair, keyPair.label, "keystore");
+      } catch (error) {
+        setWalletError(error instanceof Error ? error.message : "Unable to import keystore.");
         setWalletFeedback(null);
-        return;
+      } finally {
+        setKeystoreBusy(false);
       }
+    },
+    [activateImportedWallet, keystorePassword]
+  );
 
-      if (parsedAmount > walletBalance) {
-        setWalletError("Insufficient balance for this transfer.");
-        setWalletFeedback(null);
-        return;
+  const handleImportSecret = useCallback(async () => {
+    const secret = importSecret.trim();
+    if (!secret) {
+      setWalletError("Paste a private key or a BIP-39 mnemonic to import.");
+      setWalletFeedback(null);
+      return;
+    }
+
+    setKeystoreBusy(true);
+    try {
+      const isMnemonic = looksLikeMnemonic(secret);
+      if (!isMnemonic && !/^(0x)?[0-9a-fA-F]{64}$/.test(secret)) {
+        throw new Error("Expected a 64-hex private key or a 12–24 word mnemonic.");
       }
+      const keyPair = isMnemonic ? await keyPairFromMnemonic(secret) : await keyPairFromPrivateKey(secret);
+      setImportSecret("");
+      activateImportedWallet(keyPair, `imported-${wallets.length + 1}`, isMnemonic ? "mnemonic" : "private key");
+    } catch (error) {
+      setWalletError(error instanceof Error ? error.message : "Unable to import key.");
+      setWalletFeedback(null);
+    } finally {
+      setKeystoreBusy(false);
+    }
+  }, [activateImportedWallet, importSecret, wallets.length]);
+
+  const handleSelectWallet = useCallback(
+    (wallet: StoredWallet) => {
+      setWalletAddress(wallet.address);
+      setWalletFeedback(`Switched to ${wallet.label} (${wallet.address.slice(0, 10)}…${wallet.address.slice(-6)}).`);
+      setWalletError(null);
+      appendCommand("wallet", `active account set to ${wallet.label}`);
+    },
+    [appendCommand]
+  );
 
-      if (!walletRecipient) {
-        setWalletError("Specify a recipient address.");
+  const handleRenameWallet = useCallback((address: string, label: string) => {
+    setWallets((prev) => prev.map((wallet) => (wallet.address === address ? { ...wallet, label } : wallet)));
+  }, []);
+
+  const handleForgetSession = useCallback(() => {
+    const forgotten = new Set(wallets.map((wallet) => wallet.address));
+    if (walletAddress) forgotten.add(walletAddress);
+    clearSession();
+    setLedger((prev) => prev.filter((entry) => !forgotten.has(entry.from) && !forgotten.has(entry.to)));
+    setWallets([]);
+    setFaucetHistory([]);
+    setWalletAddress("");
+    setLedgerAccountFilter("active");
+    setWalletFeedback("Session forgotten. Stored wallets, faucet history, and wallet ledger entries were cleared.");
+    setWalletError(null);
+    appendCommand("storage", "session storage cleared");
+  }, [appendCommand, walletAddress, wallets]);
+
+  const submitTransfer = useCallback(
+    async (recipient: string, rawAmount: string, memo: string, replaces?: LedgerEntry): Promise<string | null> => {
+      const fail = (message: string) => {
+        setWalletError(message);
         setWalletFeedback(null);
-        return;
+        return message;
+      };
+
+      if (!walletAddress) {
+        return fail("Generate a wallet address before broadcasting a transfer.");
       }
 
-      const hash = `0x${randomHex(64)}`;
-      const entry: LedgerEntry = {
-        id: `tx-${Date.now()}`,
-        hash,
+      if (replaces && (!isQueued(replaces) || replaces.from !== walletAddress)) {
+        return fail("Only queued transfers from the active wallet can be replaced.");
+      }
+
+      const parsedAmount = Number(rawAmount.replace(/,/g, ""));
+      if (Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+        return fail("Enter a valid transfer amount greater than zero.");
+      }
+
+      if (parsedAmount > walletBalance + (replaces?.amount ?? 0)) {
+        return fail("Insufficient balance for this transfer.");
+      }
+
+      if (!recipient) {
+        return fail("Specify a recipient address.");
+      }
+
+      const signer = localSigner(wallets.find((wallet) => wallet.address === walletAddress));
+      if (!signer && walletAddress !== phantomAddress) {
+        return fail(MISSING_SIGNING_KEY);
+      }
+
+      const payload: TransferPayload = {
         from: walletAddress,
-        to: walletRecipient,
+        to: recipient,
         amount: parsedAmount,
-        memo: walletMemo || undefined,
-        status: "confirmed",
+        memo: memo || undefined,
+        nonce: replaces?.nonce ?? nextNonce(ledger, walletAddress)
+      };
+
+      let signed: SignedTransfer | null = null;
+      if (signer) {
+        try {
+          signed = await signTransfer(signer.privateKeyJwk, signer.publicKey, payload);
+        } catch (error) {
+          return fail(error instanceof Error ? `Unable to sign transfer: ${error.message}` : "Unable to sign transfer.");
+        }
+      }
+
+      const hash = signed?.hash ?? `0x${randomHex(64)}`;
+      const entry: LedgerEntry = {
+        id: `tx-${Date.now()}-${randomHex(4)}`,
+        hash,
+        ...payload,
+        status: "pending",
         timestamp: new Date().toISOString(),
-        origin: "wallet"
+        origin: "wallet",
+        signature: signed?.signature,
+        publicKey: signed?.publicKey
       };
 
-      setLedger((prev) => [entry, ...prev]);
-      setWalletBalance((prev) => prev - parsedAmount);
+      setLedger((prev) => [entry, ...(replaces ? prev.filter((tx) => tx.id !== replaces.id) : prev)]);
       setWalletFeedback(
-        `Transfer executed. Hash ${shortHash(hash)} recorded and ${TOKEN_TICKER} balance updated.`
+        `${signed ? "Transfer signed" : "Phantom transfer"} and queued in the mempool. Hash ${shortHash(hash)} confirms after ${CONFIRMATION_DEPTH} blocks.`
       );
       setWalletError(null);
-      setWalletAmount("0.0000");
-      setWalletMemo("");
       appendCommand(
         "wallet",
-        `sent ${formatAmount(parsedAmount)} ${TOKEN_NAME} to ${walletRecipient.slice(0, 10)}…${walletRecipient.slice(-6)}`
+        replaces
+          ? `replaced ${shortHash(replaces.hash)} with ${shortHash(hash)} at nonce ${payload.nonce}`
+          : `queued ${formatAmount(parsedAmount)} ${TOKEN_NAME} to ${recipient.slice(0, 10)}…${recipient.slice(-6)}`
       );
+      return null;
     },
-    [appendCommand, walletAddress, walletAmount, walletBalance, walletMemo, walletRecipient]
+    [appendCommand, ledger, phantomAddress, walletAddress, walletBalance, wallets]
+  );
+
+  const handleWalletSubmit = useCallback(
+    async (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const replaces = replacingId ? ledger.find((entry) => entry.id === replacingId) : undefined;
+      if (replacingId && !replaces) {
+        setReplacingId(null);
+        setWalletError("The transfer being replaced has already left the mempool.");
+        return;
+      }
+      if ((await submitTransfer(walletRecipient, walletAmount, walletMemo, replaces)) === null) {
+        setWalletAmount("0.0000");
+        setWalletMemo("");
+        setReplacingId(null);
+      }
+    },
+    [ledger, replacingId, submitTransfer, walletAmount, walletMemo, walletRecipient]
+  );
+
+  const handleCancelPending = useCallback(
+    (entry: LedgerEntry) => {
+      if (!isQueued(entry)) {
+        setWalletError(`Transfer ${shortHash(entry.hash)} is already included in a block and can no longer be cancelled.`);
+        return;
+      }
+      setLedger((prev) => prev.filter((tx) => tx.id !== entry.id));
+      setReplacingId((current) => (current === entry.id ? null : current));
+      setWalletFeedback(`Transfer ${shortHash(entry.hash)} dropped from the mempool.`);
+      setWalletError(null);
+      appendCommand("mempool", `cancelled ${shortHash(entry.hash)}`);
+    },
+    [appendCommand]
+  );
+
+  const handleReplacePending = useCallback(
+    (entry: LedgerEntry) => {
+      if (!isQueued(entry)) {
+        setWalletError(`Transfer ${shortHash(entry.hash)} is already included in a block and can no longer be replaced.`);
+        return;
+      }
+      setWalletAddress(entry.from);
+      setWalletRecipient(entry.to);
+      setWalletAmount(String(entry.amount));
+      setWalletMemo(entry.memo ?? "");
+      setReplacingId(entry.id);
+      setWalletFeedback(`Editing queued transfer ${shortHash(entry.hash)}; submitting re-signs it at nonce ${entry.nonce ?? 0}.`);
+      setWalletError(null);
+      focusWalletAmountRef.current = true;
+      navigate("/wallet");
+    },
+    [navigate]
   );
 
   const handleFaucetRequest = useCallback(() => {
     if (!walletAddress) {
       setWalletError("Generate a wallet before requesting faucet liquidity.");
-      setActiveRoute("/wallet");
+      navigate("/wallet");
       return;
     }
 
@@ -738,8 +1862,7 @@ export default function App() {
     }
 
     setIsFaucetPending(true);
-    const amount = randomBetween(24, 96) + Math.random();
-    const hash = `0x${randomHex(64)}`;
+    const amount = faucetDripAmount();
     const entry: FaucetEntry = {
       id: `drip-${Date.now()}`,
       amount,
@@ -748,23 +1871,14 @@ export default function App() {
       status: "completed"
     };
 
-    const ledgerEntry: LedgerEntry = {
-      id: `tx-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
-      hash,
-      from: "0xProtocol::Faucet",
-      to: walletAddress,
-      amount,
-      memo: "faucet disbursement",
-      status: "confirmed",
-      timestamp: entry.timestamp,
-      origin: "faucet"
-    };
+    const ledgerEntry = faucetCredit(walletAddress, amount, "faucet disbursement", entry.timestamp);
 
     window.setTimeout(() => {
       setLedger((prev) => [ledgerEntry, ...prev]);
       setFaucetHistory((prev) => [entry, ...prev.slice(0, 4)]);
-      setWalletBalance((prev) => prev + amount);
-      setWalletFeedback(`Faucet delivered ${formatAmount(amount)} ${TOKEN_NAME} to your wallet.`);
+      setWalletFeedback(
+        `Faucet queued ${formatAmount(amount)} ${TOKEN_NAME} to your wallet; it confirms after ${CONFIRMATION_DEPTH} blocks.`
+      );
       setWalletError(null);
       setIsFaucetPending(false);
       appendCommand(
@@ -772,7 +1886,35 @@ export default function App() {
         `disbursed ${formatAmount(amount)} ${TOKEN_NAME} to ${walletAddress.slice(0, 10)}…${walletAddress.slice(-6)}`
       );
     }, 1800);
-  }, [appendCommand, isFaucetPending, walletAddress]);
+  }, [appendCommand, isFaucetPending, navigate, walletAddress]);
+
+  const explorerSuggestions = useMemo(
+    () =>
+      searchExplorer(explorerQuery, {
+        ledger,
+        blocks,
+        addresses: [
+          ...explorerAddresses,
+          ...wallets.map((wallet) => ({ label: wallet.label || wallet.address, address: wallet.address }))
+        ]
+      }),
+    [blocks, explorerQuery, ledger, wallets]
+  );
+
+  const handleExplorerSearch = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const [match] = explorerSuggestions;
+      if (!match) {
+        setExplorerSearchError(`No transaction, block, or address matches "${explorerQuery.trim()}".`);
+        return;
+      }
+      setExplorerSearchError(null);
+      setExplorerQuery("");
+      navigate(searchResultPath(match));
+    },
+    [explorerQuery, explorerSuggestions, navigate]
+  );
 
   const handleCopyAddress = useCallback((address: string) => {
     setCopiedAddress(address);
@@ -784,6 +1926,171 @@ export default function App() {
     appendCommand("explorer", `copied address ${address.slice(0, 10)}…${address.slice(-6)}`);
   }, [appendCommand]);
 
+  const runShellCommand = useCallback(
+    (input: string) => {
+      appendCommand("shell", `$ ${input}`);
+      const parsed = parseCommand(input);
+      if (!parsed.ok) {
+        appendCommand("error", parsed.error);
+        return;
+      }
+
+      const { command } = parsed;
+      switch (command.name) {
+        case "help":
+          shellCommands.forEach((entry) => appendCommand("help", `${entry.usage} — ${entry.description}`));
+          return;
+        case "clear":
+          setCommandBuffer([]);
+          return;
+        case "cd":
+          if (!parseRoute(command.path)) {
+            appendCommand("error", `cd: no such route ${command.path}`);
+            return;
+          }
+          navigate(command.path);
+          return;
+        case "send":
+          void submitTransfer(command.recipient, command.amount, command.memo ?? "").then((error) => {
+            if (error) {
+              appendCommand("error", `send: ${error}`);
+            }
+          });
+          return;
+        case "faucet":
+          if (!walletAddress) {
+            appendCommand("error", "faucet: generate a wallet before requesting liquidity");
+            return;
+          }
+          if (isFaucetPending) {
+            appendCommand("error", "faucet: a drip is already processing");
+            return;
+          }
+          handleFaucetRequest();
+          appendCommand("faucet", "drip requested — awaiting validator approval");
+          return;
+        case "block":
+          navigate(blockPath(command.height));
+          return;
+        case "copy": {
+          const registry = explorerAddresses.find((entry) => entry.label === command.target);
+          const address = registry?.address ?? command.target;
+          if (!registry && !/^0x[0-9a-fA-F]+$/.test(address)) {
+            appendCommand("error", `copy: unknown address or label ${command.target}`);
+            return;
+          }
+          handleCopyAddress(address);
+          return;
+        }
+      }
+    },
+    [
+      appendCommand,
+      handleCopyAddress,
+      handleFaucetRequest,
+      isFaucetPending,
+      navigate,
+      submitTransfer,
+      walletAddress
+    ]
+  );
+
+  const handleShellSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const input = shellInput.trim();
+      if (!input) return;
+      setShellHistory((prev) => [...prev.filter((entry) => entry !== input).slice(-49), input]);
+      setShellHistoryCursor(null);
+      setShellInput("");
+      runShellCommand(input);
+    },
+    [runShellCommand, shellInput]
+  );
+
+  const handleShellKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Tab") {
+        event.preventDefault();
+        const completion = completeInput(shellInput, {
+          paths: routes.map((route) => route.path),
+          labels: explorerAddresses.map((entry) => entry.label)
+        });
+        setShellInput(completion.value);
+        if (completion.matches.length > 1) {
+          appendCommand("shell", completion.matches.join("  "));
+        }
+        return;
+      }
+
+      if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+        if (shellHistory.length === 0) return;
+        event.preventDefault();
+        const lastIndex = shellHistory.length - 1;
+        let cursor: number | null;
+        if (event.key === "ArrowUp") {
+          cursor = shellHistoryCursor === null ? lastIndex : Math.max(shellHistoryCursor - 1, 0);
+        } else {
+          cursor = shellHistoryCursor === null || shellHistoryCursor >= lastIndex ? null : shellHistoryCursor + 1;
+        }
+        setShellHistoryCursor(cursor);
+        setShellInput(cursor === null ? "" : shellHistory[cursor]);
+      }
+    },
+    [appendCommand, shellHistory, shellHistoryCursor, shellInput]
+  );
+
+  const focusWalletAmount = useCallback(() => {
+    const input = document.getElementById("wallet-amount");
+    if (input instanceof HTMLInputElement) {
+      input.focus();
+      input.select();
+      return;
+    }
+    focusWalletAmountRef.current = true;
+    navigate("/wallet");
+  }, [navigate]);
+
+  const keyBindings = useMemo<KeyBinding[]>(
+    () => [
+      {
+        key: "g",
+        group: "wallet",
+        description: "generate a fresh address",
+        run: () => {
+          void handleGenerateWallet();
+        }
+      },
+      { key: "t", group: "wallet", description: "focus the transfer amount", run: focusWalletAmount },
+      {
+        key: "p",
+        group: "wallet",
+        description: "connect Phantom",
+        run: () => {
+          void handlePhantomConnect();
+        }
+      },
+      { key: "f", group: "wallet", description: "jump to faucet claims", run: () => navigate("/faucet") },
+      ...routes.map((route, index) => ({
+        key: String(index + 1),
+        group: "routes",
+        description: `open ${route.path}`,
+        run: () => navigate(route.path)
+      })),
+      {
+        key: "/",
+        group: "terminal",
+        description: "focus the command prompt",
+        run: () => document.getElementById("shell-input")?.focus()
+      },
+      { key: "?", group: "terminal", description: "toggle this keymap", run: () => setKeymapOpen((open) => !open) },
+      { key: "Escape", group: "terminal", description: "close the keymap", run: () => setKeymapOpen(false) }
+    ],
+    [focusWalletAmount, handleGenerateWallet, handlePhantomConnect, navigate]
+  );
+
+  useKeymap(keyBindings);
+
   return (
     <div className="crt-shell terminal-shell">
       <div className="scanline-overlay" aria-hidden />
@@ -791,6 +2098,7 @@ export default function App() {
         <div className="terminal-status">
           <span className="status-led" aria-hidden />
           <span>0xProtocol.sys</span>
+          <span className="status-source">src: {chainSourceLabel}</span>
           <span className="status-clock">{new Date().toUTCString()}</span>
         </div>
         <motion.pre
@@ -810,7 +2118,7 @@ export default function App() {
             <button
               key={route.path}
               className={clsx("nav-link", { active: activeRoute === route.path })}
-              onClick={() => setActiveRoute(route.path)}
+              onClick={() => navigate(route.path)}
             >
               <span className="command-label">{route.label}</span>
               <span className="command-hint">{route.description}</span>
@@ -820,26 +2128,49 @@ export default function App() {
 
         <aside className="command-feed" aria-live="polite" aria-label="system feed">
           <h2>/feed/logs</h2>
-          <AnimatePresence mode="popLayout">
-            {commandBuffer.map((entry, index) => (
-              <motion.div
-                key={`${entry.actor}-${index}-${entry.message}`}
-                className="feed-line"
-                initial={{ opacity: 0, x: -10 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, x: 10 }}
-                transition={{ duration: 0.25 }}
-              >
-                <span className="feed-actor">[{entry.actor}]</span>
-                <span className="feed-message">{entry.message}</span>
-              </motion.div>
-            ))}
-          </AnimatePresence>
+          <div className="feed-lines" ref={feedLinesRef}>
+            <AnimatePresence mode="popLayout">
+              {commandBuffer.map((entry, index) => (
+                <motion.div
+                  key={`${entry.actor}-${index}-${entry.message}`}
+                  className={clsx("feed-line", { error: entry.actor === "error" })}
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 10 }}
+                  transition={{ duration: 0.25 }}
+                >
+                  <span className="feed-actor">[{entry.actor}]</span>
+                  <span className="feed-message">{entry.message}</span>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+          <form className="command-prompt" onSubmit={handleShellSubmit}>
+            <label htmlFor="shell-input" className="sr-only">
+              terminal command
+            </label>
+            <span className="prompt-symbol" aria-hidden>
+              $
+            </span>
+            <input
+              id="shell-input"
+              name="shell-input"
+              placeholder="type help"
+              value={shellInput}
+              onChange={(event) => {
+                setShellInput(event.target.value);
+                setShellHistoryCursor(null);
+              }}
+              onKeyDown={handleShellKeyDown}
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </form>
         </aside>
 
         <AnimatePresence mode="wait">
           <motion.section
-            key={activeRoute}
+            key={currentRoute.path}
             className="route-panel"
             initial={{ opacity: 0, y: 12 }}
             animate={{ opacity: 1, y: 0 }}
@@ -880,9 +2211,78 @@ export default function App() {
                           <li key={item}>{item}</li>
                         ))}
                       </ul>
-                    </article>
-                  ))}
-                </div>
+                    </article>
+                  ))}
+                </div>
+                <section className="snapshot-panel" aria-labelledby="snapshot-heading">
+                  <header className="ledger-header">
+                    <h3 id="snapshot-heading">Session snapshot</h3>
+                    {replayProgress && (
+                      <span className="status-pill pending">
+                        replay {replayProgress.delivered}/{replayProgress.total}
+                      </span>
+                    )}
+                  </header>
+                  <p>
+                    Save the ledger, block buffer and price ticks to JSON, or load a snapshot or single-dataset export back in to
+                    reproduce a demo or bug report.
+                  </p>
+                  <div className="keystore-controls">
+                    <button type="button" onClick={handleExportSnapshot}>
+                      export snapshot
+                    </button>
+                    <label className="file-button">
+                      import snapshot
+                      <input type="file" accept="application/json,.json" onChange={handleImportSnapshot} />
+                    </label>
+                    {replayProgress && (
+                      <button type="button" onClick={stopReplay}>
+                        stop replay
+                      </button>
+                    )}
+                  </div>
+                  <fieldset className="snapshot-options">
+                    <legend>on import</legend>
+                    <label>
+                      <input
+                        type="radio"
+                        name="snapshot-mode"
+                        checked={snapshotMode === "merge"}
+                        onChange={() => setSnapshotMode("merge")}
+                      />
+                      merge with session
+                    </label>
+                    <label>
+                      <input
+                        type="radio"
+                        name="snapshot-mode"
+                        checked={snapshotMode === "replace"}
+                        onChange={() => setSnapshotMode("replace")}
+                      />
+                      replace session
+                    </label>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={snapshotReplay}
+                        onChange={(event) => setSnapshotReplay(event.target.checked)}
+                      />
+                      replay blocks at original cadence
+                    </label>
+                  </fieldset>
+                  <div className="route-messages">
+                    {snapshotFeedback && <p className="success">{snapshotFeedback}</p>}
+                    {snapshotError && <p className="error">{snapshotError}</p>}
+                    {snapshotIssues.length > 0 && (
+                      <ul className="snapshot-issues">
+                        {snapshotIssues.slice(0, 20).map((issue) => (
+                          <li key={issue}>{issue}</li>
+                        ))}
+                        {snapshotIssues.length > 20 && <li>…and {snapshotIssues.length - 20} more</li>}
+                      </ul>
+                    )}
+                  </div>
+                </section>
               </div>
             )}
 
@@ -890,30 +2290,222 @@ export default function App() {
               <div className="route-content">
                 <h2>/validators</h2>
                 <p className="route-intro">
-                  Validators operate as AI personas specialised for scheduling, ethics, orchestration, and public reporting. Upti
-                  me and status indicators update from heartbeat telemetry.
+                  Validators operate as AI personas specialised for scheduling, ethics, orchestration, and public reporting. Proposals,
+                  missed slots, latency, and uptime are computed from the block stream; status follows heartbeat telemetry.
                 </p>
+                {routeDetail?.kind === "validator" && (
+                  <article className="detail-panel validator-detail">
+                    <header>
+                      <h3>validator {selectedValidator?.telemetry.id ?? routeDetail.id}</h3>
+                      <a href="/validators" className="detail-back" onClick={(event) => followLink(event, "/validators")}>
+                        ← /validators
+                      </a>
+                    </header>
+                    {selectedValidator ? (
+                      <>
+                        <dl>
+                          <div>
+                            <dt>role</dt>
+                            <dd>{selectedValidator.telemetry.role}</dd>
+                          </div>
+                          <div>
+                            <dt>persona</dt>
+                            <dd>{selectedValidator.telemetry.persona}</dd>
+                          </div>
+                          <div>
+                            <dt>status</dt>
+                            <dd>
+                              <span className={clsx("badge", selectedValidator.telemetry.status)}>
+                                {selectedValidator.telemetry.status}
+                              </span>{" "}
+                              since{" "}
+                              {selectedValidator.telemetry.since
+                                ? formatTime(selectedValidator.telemetry.since)
+                                : "session start"}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>collateral</dt>
+                            <dd className="detail-mono">
+                              {selectedValidator.collateral ? (
+                                <a
+                                  href={addressPath(selectedValidator.collateral.address)}
+                                  className="route-link"
+                                  onClick={(event) => followLink(event, addressPath(selectedValidator.collateral?.address ?? ""))}
+                                >
+                                  {selectedValidator.collateral.label} · {shortHash(selectedValidator.collateral.address)}
+                                </a>
+                              ) : (
+                                "no collateral address registered in the explorer"
+                              )}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>uptime</dt>
+                            <dd>
+                              {selectedValidator.telemetry.uptime === null
+                                ? "—"
+                                : `${(selectedValidator.telemetry.uptime * 100).toFixed(1)}%`}{" "}
+                              over the last {UPTIME_WINDOW_SLOTS} slots
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>proposals</dt>
+                            <dd>
+                              {selectedValidator.telemetry.proposed} proposed · {selectedValidator.telemetry.missed} missed
+                              {selectedValidator.telemetry.averageLatency !== null &&
+                                ` · ${selectedValidator.telemetry.averageLatency.toFixed(3)}s avg latency`}
+                            </dd>
+                          </div>
+                        </dl>
+
+                        <h4>Proposal history</h4>
+                        {selectedValidator.proposals.length === 0 ? (
+                          <p>No blocks from this validator in the buffered window of the live feed.</p>
+                        ) : (
+                          <table className="ledger-table">
+                            <thead>
+                              <tr>
+                                <th scope="col">Block</th>
+                                <th scope="col">Slot</th>
+                                <th scope="col">Finalised</th>
+                                <th scope="col">Latency</th>
+                                <th scope="col">Transactions</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {selectedValidator.proposals.map((row) =>
+                                row.kind === "proposed" ? (
+                                  <tr key={`block-${row.block.height}-${row.block.hash}`}>
+                                    <td>
+                                      <a
+                                        href={blockPath(row.block.height)}
+                                        className="route-link"
+                                        onClick={(event) => followLink(event, blockPath(row.block.height))}
+                                      >
+                                        #{row.block.height.toLocaleString()}
+                                      </a>
+                                    </td>
+                                    <td>{row.slot?.toLocaleString() ?? "—"}</td>
+                                    <td>{formatTime(row.block.timestamp)}</td>
+                                    <td>{row.block.latency.toFixed(3)}s</td>
+                                    <td>{row.block.txCount.toLocaleString()}</td>
+                                  </tr>
+                                ) : (
+                                  <tr key={`missed-${row.slot}`} className="missed-slot">
+                                    <td>missed</td>
+                                    <td>{row.slot.toLocaleString()}</td>
+                                    <td colSpan={3}>no block proposed in this slot</td>
+                                  </tr>
+                                )
+                              )}
+                            </tbody>
+                          </table>
+                        )}
+
+                        <h4>Persona log</h4>
+                        {selectedValidator.personaLog.length === 0 ? (
+                          <p>No commentary published yet.</p>
+                        ) : (
+                          <ul className="validator-log">
+                            {selectedValidator.personaLog.map((entry) => (
+                              <li key={entry.line}>
+                                <span>{entry.line}</span>
+                                <em>
+                                  ×{entry.count} · last #{entry.lastHeight.toLocaleString()} at {formatTime(entry.lastPosted)}
+                                </em>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        <h4>Status timeline</h4>
+                        <ul className="validator-log">
+                          {selectedValidator.changes.map((change) => (
+                            <li key={`${change.timestamp}-${change.to}`}>
+                              <span>
+                                <span className={clsx("badge", change.from)}>{change.from}</span> →{" "}
+                                <span className={clsx("badge", change.to)}>{change.to}</span>
+                              </span>
+                              <em>{formatTime(change.timestamp)}</em>
+                            </li>
+                          ))}
+                          <li>
+                            <span>
+                              <span className={clsx("badge", selectedValidator.genesisStatus)}>
+                                {selectedValidator.genesisStatus}
+                              </span>
+                            </span>
+                            <em>genesis status at session start</em>
+                          </li>
+                        </ul>
+                      </>
+                    ) : (
+                      <p>No validator named {routeDetail.id} is registered on this network.</p>
+                    )}
+                  </article>
+                )}
                 <div className="validator-grid">
-                  {validatorAgents.map((agent) => (
-                    <article key={agent.id} className="validator-card">
+                  {validators.map((validator) => (
+                    <article
+                      key={validator.id}
+                      className={clsx("validator-card", "interactive", {
+                        active: selectedValidator?.telemetry.id === validator.id
+                      })}
+                    >
                       <header>
-                        <h3>{agent.id}</h3>
-                        <span className={clsx("badge", agent.status)}>{agent.status}</span>
+                        <h3>
+                          <a
+                            href={validatorPath(validator.id)}
+                            className="route-link card-link"
+                            onClick={(event) => followLink(event, validatorPath(validator.id))}
+                          >
+                            {validator.id}
+                          </a>
+                        </h3>
+                        <span className={clsx("badge", validator.status)}>{validator.status}</span>
                       </header>
                       <dl>
                         <div>
                           <dt>Role</dt>
-                          <dd>{agent.role}</dd>
+                          <dd>{validator.role}</dd>
                         </div>
                         <div>
                           <dt>Persona</dt>
-                          <dd>{agent.persona}</dd>
+                          <dd>{validator.persona}</dd>
+                        </div>
+                        <div>
+                          <dt>Uptime · last {UPTIME_WINDOW_SLOTS} slots</dt>
+                          <dd>{validator.uptime === null ? "—" : `${(validator.uptime * 100).toFixed(1)}%`}</dd>
+                        </div>
+                        <div>
+                          <dt>Proposed / missed</dt>
+                          <dd>
+                            {validator.proposed} / {validator.missed}
+                            {validator.averageLatency !== null && <em> · {validator.averageLatency.toFixed(3)}s avg</em>}
+                          </dd>
                         </div>
                         <div>
-                          <dt>Uptime</dt>
-                          <dd>{agent.uptime}</dd>
+                          <dt>Status since</dt>
+                          <dd>
+                            {validator.since ? formatTime(validator.since) : "session start"}
+                            {validator.lastHeartbeat && <em> · heartbeat {formatTime(validator.lastHeartbeat)}</em>}
+                          </dd>
                         </div>
                       </dl>
+                      {validator.recentLatency.length > 1 && (
+                        <figure className="validator-sparkline">
+                          <svg
+                            viewBox="0 0 200 40"
+                            preserveAspectRatio="none"
+                            role="img"
+                            aria-label={`latency of ${validator.id}'s last ${validator.recentLatency.length} blocks`}
+                          >
+                            <polyline points={sparklinePoints(validator.recentLatency, 200, 40)} />
+                          </svg>
+                          <figcaption>latency of the last {validator.recentLatency.length} blocks</figcaption>
+                        </figure>
+                      )}
                     </article>
                   ))}
                 </div>
@@ -927,17 +2519,180 @@ export default function App() {
                   Continuous finality feed. New blocks stream in as validator personas rotate leadership, carrying aggregated pro
                   ofs and conversational governance outcomes.
                 </p>
+                {routeDetail?.kind === "block" && (
+                  <article className="detail-panel">
+                    <header>
+                      <h3>block #{routeDetail.height.toLocaleString()}</h3>
+                      <a href="/blocks" className="detail-back" onClick={(event) => followLink(event, "/blocks")}>
+                        ← /blocks
+                      </a>
+                    </header>
+                    {selectedBlock ? (
+                      <>
+                        <dl>
+                          <div>
+                            <dt>proposer</dt>
+                            <dd>
+                              <a
+                                href={validatorPath(selectedBlock.block.producer)}
+                                className="route-link"
+                                onClick={(event) => followLink(event, validatorPath(selectedBlock.block.producer))}
+                              >
+                                {selectedBlock.block.producer}
+                              </a>
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>hash</dt>
+                            <dd className="detail-mono">
+                              <span className={clsx("status-pill", selectedBlock.verification.hash)}>
+                                {selectedBlock.verification.hash}
+                              </span>{" "}
+                              {selectedBlock.block.hash}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>parent</dt>
+                            <dd className="detail-mono">
+                              <span className={clsx("status-pill", selectedBlock.verification.parent)}>
+                                {selectedBlock.verification.parent}
+                              </span>{" "}
+                              <a
+                                href={blockPath(selectedBlock.block.height - 1)}
+                                className="route-link"
+                                onClick={(event) => followLink(event, blockPath(selectedBlock.block.height - 1))}
+                              >
+                                {selectedBlock.block.parentHash}
+                              </a>
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>tx root</dt>
+                            <dd className="detail-mono">
+                              <span className={clsx("status-pill", selectedBlock.verification.txRoot)}>
+                                {selectedBlock.verification.txRoot}
+                              </span>{" "}
+                              {selectedBlock.block.txRoot}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>throughput</dt>
+                            <dd>{formatAmount(selectedBlock.block.tps)} TPS</dd>
+                          </div>
+                          <div>
+                            <dt>latency</dt>
+                            <dd>{selectedBlock.block.latency.toFixed(2)}s</dd>
+                          </div>
+                          <div>
+                            <dt>transactions</dt>
+                            <dd>
+                              {selectedBlock.block.txCount.toLocaleString()} network ·{" "}
+                              {selectedBlock.block.txIds.length.toLocaleString()} ledger
+                            </dd>
+                          </div>
+                          <div>
+                            <dt>finalised</dt>
+                            <dd>{new Date(selectedBlock.block.timestamp).toUTCString()}</dd>
+                          </div>
+                          <div>
+                            <dt>commentary</dt>
+                            <dd>{selectedBlock.block.commentary}</dd>
+                          </div>
+                        </dl>
+                        {selectedBlock.transactions.length === 0 ? (
+                          <p>No ledger transactions were included in this block.</p>
+                        ) : (
+                          <table className="ledger-table">
+                            <thead>
+                              <tr>
+                                <th scope="col">Hash</th>
+                                <th scope="col">From</th>
+                                <th scope="col">To</th>
+                                <th scope="col">Amount</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {selectedBlock.transactions.map(({ id, entry }) =>
+                                entry ? (
+                                  <tr key={id}>
+                                    <td>
+                                      <a
+                                        href={txPath(entry.hash)}
+                                        className="route-link"
+                                        onClick={(event) => followLink(event, txPath(entry.hash))}
+                                      >
+                                        {shortHash(entry.hash)}
+                                      </a>
+                                    </td>
+                                    <td>
+                                      <a
+                                        href={addressPath(entry.from)}
+                                        className="route-link"
+                                        onClick={(event) => followLink(event, addressPath(entry.from))}
+                                      >
+                                        {shortHash(entry.from)}
+                                      </a>
+                                    </td>
+                                    <td>
+                                      <a
+                                        href={addressPath(entry.to)}
+                                        className="route-link"
+                                        onClick={(event) => followLink(event, addressPath(entry.to))}
+                                      >
+                                        {shortHash(entry.to)}
+                                      </a>
+                                    </td>
+                                    <td>{formatAmount(entry.amount)} {TOKEN_TICKER}</td>
+                                  </tr>
+                                ) : (
+                                  <tr key={id}>
+                                    <td>{id}</td>
+                                    <td colSpan={3}>not present in the local ledger</td>
+                                  </tr>
+                                )
+                              )}
+                            </tbody>
+                          </table>
+                        )}
+                      </>
+                    ) : (
+                      <p>Block #{routeDetail.height.toLocaleString()} is outside the buffered window of the live feed.</p>
+                    )}
+                  </article>
+                )}
+                <div className="export-actions">
+                  <button
+                    type="button"
+                    className="copy-button"
+                    disabled={blocks.length === 0}
+                    onClick={() => saveExport(exportJson("blocks", blocks), blocks.length)}
+                  >
+                    export {blocks.length} blocks json
+                  </button>
+                </div>
                 <div className="block-feed">
-                  {blocks.map((block) => (
-                    <div key={`${block.height}-${block.hash}`} className="block-card">
+                  {blocks.slice(0, BLOCK_FEED_SIZE).map((block) => (
+                    <div
+                      key={`${block.height}-${block.hash}`}
+                      className={clsx("block-card", "interactive", {
+                        active: routeDetail?.kind === "block" && routeDetail.height === block.height
+                      })}
+                    >
                       <header>
-                        <span className="block-height">#{block.height.toLocaleString()}</span>
+                        <a
+                          href={blockPath(block.height)}
+                          className="block-height route-link card-link"
+                          onClick={(event) => followLink(event, blockPath(block.height))}
+                        >
+                          #{block.height.toLocaleString()}
+                        </a>
                         <span className="block-producer">proposer {block.producer}</span>
                       </header>
                       <div className="block-metrics">
                         <span>{formatAmount(block.tps)} TPS</span>
                         <span>{block.latency.toFixed(2)}s latency</span>
                         <span>{block.txCount.toLocaleString()} tx</span>
+                        {block.txIds.length > 0 && <span>{block.txIds.length} ledger</span>}
                       </div>
                       <p>{block.commentary}</p>
                       <footer className="block-footer">
@@ -950,6 +2705,106 @@ export default function App() {
               </div>
             )}
 
+            {activeRoute === "/mempool" && (
+              <div className="route-content">
+                <h2>/mempool</h2>
+                <p className="route-intro">
+                  Transfers queue here until the next block includes them, then settle after {CONFIRMATION_DEPTH} confirmations.
+                  Queued transfers from local wallets can still be cancelled or replaced at the same nonce.
+                </p>
+                <div className="ledger-section">
+                  <h3>Pending transactions</h3>
+                  {mempoolEntries.length === 0 ? (
+                    <p>The mempool is empty.</p>
+                  ) : (
+                    <table className="ledger-table">
+                      <thead>
+                        <tr>
+                          <th scope="col">Hash</th>
+                          <th scope="col">From</th>
+                          <th scope="col">To</th>
+                          <th scope="col">Amount</th>
+                          <th scope="col">Nonce</th>
+                          <th scope="col">Stage</th>
+                          <th scope="col">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {mempoolEntries.map((entry) => {
+                          const stage = mempoolStage(entry);
+                          const owned = wallets.some((wallet) => wallet.address === entry.from);
+                          return (
+                            <tr key={entry.id}>
+                              <td>
+                                <a
+                                  href={txPath(entry.hash)}
+                                  className="route-link"
+                                  onClick={(event) => followLink(event, txPath(entry.hash))}
+                                >
+                                  {shortHash(entry.hash)}
+                                </a>
+                              </td>
+                              <td>
+                                <a
+                                  href={addressPath(entry.from)}
+                                  className="route-link"
+                                  onClick={(event) => followLink(event, addressPath(entry.from))}
+                                >
+                                  {shortHash(entry.from)}
+                                </a>
+                              </td>
+                              <td>
+                                <a
+                                  href={addressPath(entry.to)}
+                                  className="route-link"
+                                  onClick={(event) => followLink(event, addressPath(entry.to))}
+                                >
+                                  {shortHash(entry.to)}
+                                </a>
+                              </td>
+                              <td>{formatAmount(entry.amount)} {TOKEN_TICKER}</td>
+                              <td>{entry.nonce ?? "—"}</td>
+                              <td>
+                                <span className={clsx("status-pill", stage)}>
+                                  {stage === "included"
+                                    ? `${confirmationsOf(entry, tipHeight)}/${CONFIRMATION_DEPTH} conf`
+                                    : stage}
+                                </span>
+                              </td>
+                              <td className="mempool-actions">
+                                {owned && stage === "queued" ? (
+                                  <>
+                                    {entry.origin === "wallet" && (
+                                      <button type="button" className="copy-button" onClick={() => handleReplacePending(entry)}>
+                                        replace
+                                      </button>
+                                    )}
+                                    <button type="button" className="copy-button" onClick={() => handleCancelPending(entry)}>
+                                      cancel
+                                    </button>
+                                  </>
+                                ) : entry.blockHeight !== undefined ? (
+                                  <a
+                                    href={blockPath(entry.blockHeight)}
+                                    className="route-link"
+                                    onClick={(event) => followLink(event, blockPath(entry.blockHeight ?? tipHeight))}
+                                  >
+                                    #{entry.blockHeight.toLocaleString()}
+                                  </a>
+                                ) : (
+                                  "—"
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            )}
+
             {activeRoute === "/explorer" && (
               <div className="route-content">
                 <h2>/explorer</h2>
@@ -957,6 +2812,325 @@ export default function App() {
                   Ledger registry with live events from treasury, validators, and faucet disbursements. Copy addresses or scan tr
                   ansaction hashes to trace the flow of value through the commons.
                 </p>
+                <form className="explorer-search" role="search" onSubmit={handleExplorerSearch}>
+                  <label htmlFor="explorer-query" className="sr-only">
+                    search hashes, heights, addresses and labels
+                  </label>
+                  <input
+                    id="explorer-query"
+                    value={explorerQuery}
+                    placeholder="tx hash · block height · 0x address · validator://label"
+                    onChange={(event) => {
+                      setExplorerQuery(event.target.value);
+                      setExplorerSearchError(null);
+                    }}
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  <button type="submit">search</button>
+                  {explorerQuery.trim() && explorerSuggestions.length > 0 && (
+                    <ul className="explorer-suggestions">
+                      {explorerSuggestions.map((result) => (
+                        <li key={searchResultPath(result)}>
+                          <a
+                            href={searchResultPath(result)}
+                            className="route-link"
+                            onClick={(event) => {
+                              setExplorerQuery("");
+                              followLink(event, searchResultPath(result));
+                            }}
+                          >
+                            <span className="suggestion-kind">{result.kind}</span> {result.label}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </form>
+                {explorerSearchError && (
+                  <div className="route-messages">
+                    <p className="error">{explorerSearchError}</p>
+                  </div>
+                )}
+                {routeDetail?.kind === "tx" && (
+                  <article className="detail-panel">
+                    <header>
+                      <h3>transaction</h3>
+                      <a href="/explorer" className="detail-back" onClick={(event) => followLink(event, "/explorer")}>
+                        ← /explorer
+                      </a>
+                    </header>
+                    {selectedTransaction ? (
+                      <dl>
+                        <div>
+                          <dt>hash</dt>
+                          <dd className="detail-mono">{selectedTransaction.hash}</dd>
+                        </div>
+                        <div>
+                          <dt>from</dt>
+                          <dd className="detail-mono">
+                            <a
+                              href={addressPath(selectedTransaction.from)}
+                              className="route-link"
+                              onClick={(event) => followLink(event, addressPath(selectedTransaction.from))}
+                            >
+                              {selectedTransaction.from}
+                            </a>
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>to</dt>
+                          <dd className="detail-mono">
+                            <a
+                              href={addressPath(selectedTransaction.to)}
+                              className="route-link"
+                              onClick={(event) => followLink(event, addressPath(selectedTransaction.to))}
+                            >
+                              {selectedTransaction.to}
+                            </a>
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>amount</dt>
+                          <dd>{formatAmount(selectedTransaction.amount)} {TOKEN_TICKER}</dd>
+                        </div>
+                        <div>
+                          <dt>memo</dt>
+                          <dd>{selectedTransaction.memo ?? "—"}</dd>
+                        </div>
+                        {selectedTransaction.trade && (
+                          <div>
+                            <dt>desk fill</dt>
+                            <dd>
+                              {selectedTransaction.trade.side} @ {selectedTransaction.trade.price.toFixed(4)} · fee{" "}
+                              {selectedTransaction.trade.fee.toFixed(4)} ·{" "}
+                              {selectedTransaction.trade.side === "buy" ? "cost" : "proceeds"}{" "}
+                              {selectedTransaction.trade.quote.toFixed(4)} · slippage {selectedTransaction.trade.slippageBps} bps
+                            </dd>
+                          </div>
+                        )}
+                        <div>
+                          <dt>status</dt>
+                          <dd>
+                            <span className={clsx("status-pill", selectedTransaction.origin)}>
+                              {selectedTransaction.status}
+                            </span>
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>time</dt>
+                          <dd>{new Date(selectedTransaction.timestamp).toUTCString()}</dd>
+                        </div>
+                        <div>
+                          <dt>inclusion</dt>
+                          <dd>
+                            {selectedTransaction.blockHeight !== undefined ? (
+                              <>
+                                <a
+                                  href={blockPath(selectedTransaction.blockHeight)}
+                                  className="route-link"
+                                  onClick={(event) => followLink(event, blockPath(selectedTransaction.blockHeight ?? tipHeight))}
+                                >
+                                  #{selectedTransaction.blockHeight.toLocaleString()}
+                                </a>{" "}
+                                · {confirmationsOf(selectedTransaction, tipHeight)} confirmations
+                              </>
+                            ) : selectedTransaction.status === "pending" ? (
+                              "queued in mempool"
+                            ) : (
+                              "—"
+                            )}
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>nonce</dt>
+                          <dd>{selectedTransaction.nonce ?? "—"}</dd>
+                        </div>
+                        <div>
+                          <dt>signature</dt>
+                          <dd className="detail-mono">
+                            {signatureCheck && (
+                              <span className={clsx("status-pill", signatureCheck)}>{signatureCheck}</span>
+                            )}{" "}
+                            {selectedTransaction.signature ? shortHash(selectedTransaction.signature) : ""}
+                          </dd>
+                        </div>
+                      </dl>
+                    ) : (
+                      <p>No ledger entry matches {shortHash(routeDetail.hash)} in this session.</p>
+                    )}
+                  </article>
+                )}
+                {routeDetail?.kind === "address" && selectedAddress && (
+                  <article className="detail-panel">
+                    <header>
+                      <h3>{selectedAddress.label}</h3>
+                      <a href="/explorer" className="detail-back" onClick={(event) => followLink(event, "/explorer")}>
+                        ← /explorer
+                      </a>
+                    </header>
+                    <dl>
+                      <div>
+                        <dt>address</dt>
+                        <dd className="detail-mono">{selectedAddress.address}</dd>
+                      </div>
+                      <div>
+                        <dt>balance</dt>
+                        <dd>{describeBalance(selectedAddress.address)}</dd>
+                      </div>
+                      <div>
+                        <dt>inflow</dt>
+                        <dd>{formatAmount(selectedAddress.inflow)} {TOKEN_TICKER}</dd>
+                      </div>
+                      <div>
+                        <dt>outflow</dt>
+                        <dd>{formatAmount(selectedAddress.outflow)} {TOKEN_TICKER}</dd>
+                      </div>
+                      {selectedAddress.registry && (
+                        <div>
+                          <dt>notes</dt>
+                          <dd>{selectedAddress.registry.notes}</dd>
+                        </div>
+                      )}
+                    </dl>
+                    {selectedAddress.history.length > 1 && (
+                      <figure className="address-sparkline">
+                        <svg viewBox="0 0 320 64" preserveAspectRatio="none" role="img" aria-label="balance over time">
+                          <polyline points={sparklinePoints(selectedAddress.history, 320, 64)} />
+                        </svg>
+                        <figcaption>
+                          balance over {selectedAddress.history.length - 1} ledger events ·{" "}
+                          {formatSigned(
+                            selectedAddress.history[selectedAddress.history.length - 1] - selectedAddress.history[0]
+                          )}{" "}
+                          {TOKEN_TICKER} since genesis
+                        </figcaption>
+                      </figure>
+                    )}
+                    {selectedAddress.counterparties.length > 0 && (
+                      <div className="address-counterparties">
+                        <h4>Top counterparties</h4>
+                        <table className="ledger-table">
+                          <thead>
+                            <tr>
+                              <th scope="col">Counterparty</th>
+                              <th scope="col">Received</th>
+                              <th scope="col">Sent</th>
+                              <th scope="col">Transfers</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selectedAddress.counterparties.map((counterparty) => (
+                              <tr key={counterparty.address}>
+                                <td>
+                                  <a
+                                    href={addressPath(counterparty.address)}
+                                    className="route-link"
+                                    onClick={(event) => followLink(event, addressPath(counterparty.address))}
+                                  >
+                                    {explorerAddresses.find((entry) => entry.address === counterparty.address)?.label ??
+                                      shortHash(counterparty.address)}
+                                  </a>
+                                </td>
+                                <td>{formatAmount(counterparty.inflow)} {TOKEN_TICKER}</td>
+                                <td>{formatAmount(counterparty.outflow)} {TOKEN_TICKER}</td>
+                                <td>{counterparty.count}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                    {selectedAddress.total === 0 ? (
+                      <p>No ledger events reference this address yet.</p>
+                    ) : (
+                      <>
+                        <table className="ledger-table">
+                          <thead>
+                            <tr>
+                              <th scope="col">Hash</th>
+                              <th scope="col">Direction</th>
+                              <th scope="col">Counterparty</th>
+                              <th scope="col">Amount</th>
+                              <th scope="col">Status</th>
+                              <th scope="col">Time</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selectedAddress.page.items.map((entry) => {
+                              const outgoing = entry.from.toLowerCase() === selectedAddress.address.toLowerCase();
+                              const counterparty = outgoing ? entry.to : entry.from;
+                              return (
+                                <tr key={`${entry.id}-address`}>
+                                  <td>
+                                    <a
+                                      href={txPath(entry.hash)}
+                                      className="route-link"
+                                      onClick={(event) => followLink(event, txPath(entry.hash))}
+                                    >
+                                      {shortHash(entry.hash)}
+                                    </a>
+                                  </td>
+                                  <td>
+                                    <span className={clsx("status-pill", outgoing ? "out" : "in")}>
+                                      {outgoing ? "out" : "in"}
+                                    </span>
+                                  </td>
+                                  <td>
+                                    <a
+                                      href={addressPath(counterparty)}
+                                      className="route-link"
+                                      onClick={(event) => followLink(event, addressPath(counterparty))}
+                                    >
+                                      {shortHash(counterparty)}
+                                    </a>
+                                  </td>
+                                  <td>{formatAmount(entry.amount)} {TOKEN_TICKER}</td>
+                                  <td>{entry.status}</td>
+                                  <td>{formatTime(entry.timestamp)}</td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                        {selectedAddress.page.pageCount > 1 && (
+                          <nav className="pager" aria-label="address history pages">
+                            {selectedAddress.page.page > 1 ? (
+                              <a
+                                href={addressPath(selectedAddress.address, selectedAddress.page.page - 1)}
+                                className="route-link"
+                                onClick={(event) =>
+                                  followLink(event, addressPath(selectedAddress.address, selectedAddress.page.page - 1))
+                                }
+                              >
+                                ← newer
+                              </a>
+                            ) : (
+                              <span />
+                            )}
+                            <span>
+                              page {selectedAddress.page.page} / {selectedAddress.page.pageCount} ·{" "}
+                              {selectedAddress.total} transfers
+                            </span>
+                            {selectedAddress.page.page < selectedAddress.page.pageCount ? (
+                              <a
+                                href={addressPath(selectedAddress.address, selectedAddress.page.page + 1)}
+                                className="route-link"
+                                onClick={(event) =>
+                                  followLink(event, addressPath(selectedAddress.address, selectedAddress.page.page + 1))
+                                }
+                              >
+                                older →
+                              </a>
+                            ) : (
+                              <span />
+                            )}
+                          </nav>
+                        )}
+                      </>
+                    )}
+                  </article>
+                )}
                 <table className="explorer-table">
                   <thead>
                     <tr>
@@ -973,8 +3147,16 @@ export default function App() {
                     {explorerAddresses.map((entry) => (
                       <tr key={entry.address}>
                         <th scope="row">{entry.label}</th>
-                        <td>{entry.address}</td>
-                        <td>{entry.balance}</td>
+                        <td>
+                          <a
+                            href={addressPath(entry.address)}
+                            className="route-link"
+                            onClick={(event) => followLink(event, addressPath(entry.address))}
+                          >
+                            {entry.address}
+                          </a>
+                        </td>
+                        <td>{describeBalance(entry.address)}</td>
                         <td>{entry.notes}</td>
                         <td>
                           <button
@@ -992,35 +3174,37 @@ export default function App() {
                 </table>
 
                 <div className="ledger-section">
-                  <h3>Recent transactions</h3>
-                  <table className="ledger-table">
-                    <thead>
-                      <tr>
-                        <th scope="col">Hash</th>
-                        <th scope="col">From</th>
-                        <th scope="col">To</th>
-                        <th scope="col">Amount</th>
-                        <th scope="col">Memo</th>
-                        <th scope="col">Status</th>
-                        <th scope="col">Time</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {ledger.map((entry) => (
-                        <tr key={entry.id}>
-                          <td>{shortHash(entry.hash)}</td>
-                          <td>{shortHash(entry.from)}</td>
-                          <td>{shortHash(entry.to)}</td>
-                          <td>{formatAmount(entry.amount)} {TOKEN_TICKER}</td>
-                          <td>{entry.memo ?? "—"}</td>
-                          <td>
-                            <span className={clsx("status-pill", entry.origin)}>{entry.status}</span>
-                          </td>
-                          <td>{formatTime(entry.timestamp)}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
+                  <header className="ledger-header">
+                    <h3>Recent transactions</h3>
+                    <div className="export-actions">
+                      <button
+                        type="button"
+                        className="copy-button"
+                        disabled={explorerLedger.length === 0}
+                        onClick={() => saveExport(exportLedgerCsv(explorerLedger), explorerLedger.length)}
+                      >
+                        export csv
+                      </button>
+                      <button
+                        type="button"
+                        className="copy-button"
+                        disabled={explorerLedger.length === 0}
+                        onClick={() => saveExport(exportJson("ledger", explorerLedger), explorerLedger.length)}
+                      >
+                        export json
+                      </button>
+                    </div>
+                  </header>
+                  <LedgerTable
+                    label="Recent transactions"
+                    rows={ledger}
+                    entryOf={(entry) => entry}
+                    rowKey={(entry) => entry.id}
+                    columns={explorerLedgerColumns}
+                    params={currentRoute.query}
+                    onParamsChange={replaceQuery}
+                    queryPrefix={EXPLORER_LEDGER_QUERY_PREFIX}
+                  />
                 </div>
               </div>
             )}
@@ -1029,75 +3213,312 @@ export default function App() {
               <div className="route-content markets-route">
                 <h2>/markets</h2>
                 <p className="route-intro">
-                  {TOKEN_NAME} ({TOKEN_TICKER}) liquidity desk. Five-minute candles illustrate validator-side flow with live
-                  participant counts and rolling volume.
+                  {TOKEN_NAME} ({TOKEN_TICKER}) liquidity desk. {timeframeLabel} candles are aggregated from the live tick
+                  stream and illustrate validator-side flow with participant counts and rolling volume.
                 </p>
+                <div className="export-actions">
+                  <div className="timeframe-selector" role="group" aria-label="Candle timeframe">
+                    {TIMEFRAMES.map((entry) => (
+                      <button
+                        key={entry.id}
+                        type="button"
+                        className={clsx("copy-button", entry.id === timeframe && "active")}
+                        aria-pressed={entry.id === timeframe}
+                        title={`${entry.label} candles`}
+                        onClick={() => selectTimeframe(entry.id)}
+                      >
+                        {entry.id}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    className="copy-button"
+                    disabled={marketCandles.length === 0}
+                    onClick={() => saveExport(exportCandlesCsv(marketCandles), marketCandles.length)}
+                  >
+                    export ohlcv csv
+                  </button>
+                </div>
 
                 <div className="markets-board">
                   <div
                     className="markets-chart"
-                    role="img"
-                    aria-label={`Live ${TOKEN_NAME} ${TOKEN_TICKER} five-minute candlestick chart`}
+                    role="group"
+                    aria-roledescription="interactive chart"
+                    aria-label={`Live ${TOKEN_NAME} ${TOKEN_TICKER} ${timeframeLabel} candlestick chart. Arrow keys step between candles, Home and End jump to the ends, plus and minus zoom.`}
+                    tabIndex={0}
+                    onKeyDown={handleChartKeyDown}
                   >
-                    <svg
-                      viewBox={`0 0 ${chartMetrics.width} ${chartMetrics.height}`}
-                      preserveAspectRatio="none"
-                    >
-                      <rect
-                        x={0}
-                        y={0}
-                        width={chartMetrics.width}
-                        height={chartMetrics.height}
-                        className="chart-surface"
-                      />
-                      {Array.from({ length: 5 }, (_, index) => {
-                        const value = chartMetrics.min + (priceRange / 4) * index;
-                        const y = mapY(value);
-                        return (
-                          <g key={`grid-${index}`}>
-                            <line x1={0} x2={chartMetrics.width} y1={y} y2={y} className="chart-grid" />
-                            <text x={chartMetrics.width - 6} y={y - 6} className="chart-label">
-                              {value.toFixed(2)}
+                    <div className="chart-indicators" role="group" aria-label="Chart indicators">
+                      {chartOverlays.map((overlay) => (
+                        <button
+                          key={overlay.id}
+                          type="button"
+                          className={clsx("copy-button", overlay.id, activeOverlays.includes(overlay.id) && "active")}
+                          aria-pressed={activeOverlays.includes(overlay.id)}
+                          onClick={() => toggleOverlay(overlay.id)}
+                        >
+                          {overlay.label}
+                        </button>
+                      ))}
+                      <select
+                        aria-label="Oscillator"
+                        value={chartOscillator}
+                        onChange={(event) => setChartOscillator(event.target.value as ChartOscillator)}
+                      >
+                        {chartOscillators.map((oscillator) => (
+                          <option key={oscillator.id} value={oscillator.id}>
+                            {oscillator.label}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="chart-viewport-status">
+                        {candles.length} of {marketCandles.length} candles
+                        {chartViewport.offset > 0 ? ` · ${chartViewport.offset} back` : " · live"}
+                      </span>
+                      {(chartViewport.offset > 0 || chartViewport.size !== DEFAULT_CHART_VIEWPORT.size) && (
+                        <button
+                          type="button"
+                          className="copy-button"
+                          onClick={() => {
+                            setChartViewport(DEFAULT_CHART_VIEWPORT);
+                            setChartCursor(null);
+                          }}
+                        >
+                          back to live
+                        </button>
+                      )}
+                    </div>
+                    <div className="chart-viewport">
+                      <svg
+                        ref={attachChart}
+                        viewBox={`0 0 ${chartMetrics.width} ${chartMetrics.height}`}
+                        preserveAspectRatio="none"
+                        onPointerDown={handleChartPointerDown}
+                        onPointerMove={handleChartPointerMove}
+                        onPointerUp={handleChartPointerUp}
+                        onPointerCancel={handleChartPointerUp}
+                        onPointerLeave={handleChartPointerLeave}
+                      >
+                        <rect
+                          x={0}
+                          y={0}
+                          width={chartMetrics.width}
+                          height={chartMetrics.height}
+                          className="chart-surface"
+                        />
+                        {Array.from({ length: 5 }, (_, index) => {
+                          const value = chartMetrics.min + (priceRange / 4) * index;
+                          const y = mapY(value);
+                          return (
+                            <g key={`grid-${index}`}>
+                              <line x1={0} x2={chartMetrics.width} y1={y} y2={y} className="chart-grid" />
+                              <text x={chartMetrics.width - 6} y={y - 6} className="chart-label">
+                                {value.toFixed(2)}
+                              </text>
+                            </g>
+                          );
+                        })}
+                        {activeOverlays.includes("volume") &&
+                          candles.map((candle, index) => {
+                            const barHeight =
+                              (candle.volume / chartMetrics.maxVolume) *
+                              (chartMetrics.height - chartMetrics.padding * 2) *
+                              0.22;
+                            return (
+                              <rect
+                                key={`volume-${candle.id}`}
+                                x={mapX(index) - chartMetrics.candleWidth / 2}
+                                y={chartMetrics.height - chartMetrics.padding - barHeight}
+                                width={chartMetrics.candleWidth}
+                                height={barHeight}
+                                className={clsx("volume-bar", candle.close >= candle.open ? "up" : "down")}
+                              />
+                            );
+                          })}
+                        {activeOverlays.includes("bollinger") && (
+                          <g className="chart-overlay bollinger">
+                            {(["upper", "middle", "lower"] as const).map((band) => (
+                              <path
+                                key={band}
+                                d={seriesPath(
+                                  indicators.bollinger.map((point) => point?.[band] ?? null),
+                                  mapX,
+                                  mapY
+                                )}
+                                className={band}
+                              />
+                            ))}
+                          </g>
+                        )}
+                        {candles.map((candle, index) => {
+                          const x = mapX(index);
+                          const yHigh = mapY(candle.high);
+                          const yLow = mapY(candle.low);
+                          const yOpen = mapY(candle.open);
+                          const yClose = mapY(candle.close);
+                          const bodyTop = Math.min(yOpen, yClose);
+                          const bodyHeight = Math.max(Math.abs(yClose - yOpen), 2);
+                          const candleClass = candle.close >= candle.open ? "up" : "down";
+                          return (
+                            <g key={candle.id} className={clsx("candle", candleClass)}>
+                              <line
+                                x1={x}
+                                x2={x}
+                                y1={yHigh}
+                                y2={yLow}
+                                className="candle-wick"
+                              />
+                              <rect
+                                x={x - chartMetrics.candleWidth / 2}
+                                y={bodyTop}
+                                width={chartMetrics.candleWidth}
+                                height={bodyHeight || 2}
+                                className="candle-body"
+                              />
+                            </g>
+                          );
+                        })}
+                        {(["sma", "ema", "vwap"] as const)
+                          .filter((overlay) => activeOverlays.includes(overlay))
+                          .map((overlay) => (
+                            <path
+                              key={overlay}
+                              d={seriesPath(indicators[overlay], mapX, mapY)}
+                              className={clsx("chart-overlay", overlay)}
+                            />
+                          ))}
+                        {candles.map((candle, index) =>
+                          index % timeAxisStep === 0 ? (
+                            <text
+                              key={`axis-${candle.id}`}
+                              x={mapX(index)}
+                              y={chartMetrics.height - 6}
+                              className="chart-label time-axis"
+                            >
+                              {formatAxisTime(candle.timestamp, timeframe)}
+                            </text>
+                          ) : null
+                        )}
+                        {cursorIndex !== null && cursorPriceY !== null && cursorPrice !== null && (
+                          <g className="chart-crosshair">
+                            <line x1={mapX(cursorIndex)} x2={mapX(cursorIndex)} y1={0} y2={chartMetrics.height} />
+                            <line x1={0} x2={chartMetrics.width} y1={cursorPriceY} y2={cursorPriceY} />
+                            <text x={chartMetrics.width - 6} y={cursorPriceY - 4} className="chart-label">
+                              {cursorPrice.toFixed(4)}
                             </text>
                           </g>
-                        );
-                      })}
-                      {candles.map((candle, index) => {
-                        const x = mapX(index);
-                        const yHigh = mapY(candle.high);
-                        const yLow = mapY(candle.low);
-                        const yOpen = mapY(candle.open);
-                        const yClose = mapY(candle.close);
-                        const bodyTop = Math.min(yOpen, yClose);
-                        const bodyHeight = Math.max(Math.abs(yClose - yOpen), 2);
-                        const candleClass = candle.close >= candle.open ? "up" : "down";
-                        return (
-                          <g key={candle.id} className={clsx("candle", candleClass)}>
+                        )}
+                      </svg>
+                      {cursorCandle && cursorIndex !== null && (
+                        <dl
+                          className={clsx("chart-tooltip", cursorIndex > candles.length / 2 && "flip")}
+                          style={
+                            cursorIndex > candles.length / 2
+                              ? { right: `${100 - (mapX(cursorIndex) / chartMetrics.width) * 100}%` }
+                              : { left: `${(mapX(cursorIndex) / chartMetrics.width) * 100}%` }
+                          }
+                          role="status"
+                          aria-live="polite"
+                        >
+                          <dt>time</dt>
+                          <dd>{formatTime(cursorCandle.timestamp)}</dd>
+                          <dt>open</dt>
+                          <dd>{cursorCandle.open.toFixed(4)}</dd>
+                          <dt>high</dt>
+                          <dd>{cursorCandle.high.toFixed(4)}</dd>
+                          <dt>low</dt>
+                          <dd>{cursorCandle.low.toFixed(4)}</dd>
+                          <dt>close</dt>
+                          <dd>{cursorCandle.close.toFixed(4)}</dd>
+                          <dt>volume</dt>
+                          <dd>{Math.round(cursorCandle.volume).toLocaleString()}</dd>
+                          <dt>buyers</dt>
+                          <dd>{cursorCandle.buyers.toLocaleString()}</dd>
+                          <dt>sellers</dt>
+                          <dd>{cursorCandle.sellers.toLocaleString()}</dd>
+                        </dl>
+                      )}
+                    </div>
+                    {chartOscillator !== "none" && (
+                      <svg
+                        className="oscillator-pane"
+                        viewBox={`0 0 ${chartMetrics.width} ${OSCILLATOR_PANE_HEIGHT}`}
+                        preserveAspectRatio="none"
+                      >
+                        <rect
+                          x={0}
+                          y={0}
+                          width={chartMetrics.width}
+                          height={OSCILLATOR_PANE_HEIGHT}
+                          className="chart-surface"
+                        />
+                        {(chartOscillator === "rsi" ? [30, 70] : [0]).map((level) => (
+                          <g key={`level-${level}`}>
                             <line
-                              x1={x}
-                              x2={x}
-                              y1={yHigh}
-                              y2={yLow}
-                              className="candle-wick"
-                            />
-                            <rect
-                              x={x - chartMetrics.candleWidth / 2}
-                              y={bodyTop}
-                              width={chartMetrics.candleWidth}
-                              height={bodyHeight || 2}
-                              className="candle-body"
+                              x1={0}
+                              x2={chartMetrics.width}
+                              y1={mapOscillatorY(level)}
+                              y2={mapOscillatorY(level)}
+                              className="chart-grid"
                             />
+                            <text x={chartMetrics.width - 6} y={mapOscillatorY(level) - 4} className="chart-label">
+                              {level}
+                            </text>
                           </g>
-                        );
-                      })}
-                    </svg>
+                        ))}
+                        {chartOscillator === "rsi" ? (
+                          <path d={seriesPath(indicators.rsi, mapX, mapOscillatorY)} className="chart-overlay rsi" />
+                        ) : (
+                          <>
+                            {indicators.macd.map((point, index) =>
+                              !point || point.histogram === null ? null : (
+                                <rect
+                                  key={`macd-${candles[index]?.id ?? index}`}
+                                  x={mapX(index) - chartMetrics.candleWidth / 2}
+                                  y={Math.min(mapOscillatorY(point.histogram), mapOscillatorY(0))}
+                                  width={chartMetrics.candleWidth}
+                                  height={Math.abs(mapOscillatorY(point.histogram) - mapOscillatorY(0))}
+                                  className={clsx("volume-bar", point.histogram >= 0 ? "up" : "down")}
+                                />
+                              )
+                            )}
+                            <path
+                              d={seriesPath(indicators.macd.map((point) => point?.macd ?? null), mapX, mapOscillatorY)}
+                              className="chart-overlay macd"
+                            />
+                            <path
+                              d={seriesPath(
+                                indicators.macd.map((point) => point?.signal ?? null),
+                                mapX,
+                                mapOscillatorY
+                              )}
+                              className="chart-overlay signal"
+                            />
+                          </>
+                        )}
+                        {cursorIndex !== null && (
+                          <line
+                            x1={mapX(cursorIndex)}
+                            x2={mapX(cursorIndex)}
+                            y1={0}
+                            y2={OSCILLATOR_PANE_HEIGHT}
+                            className="chart-crosshair"
+                          />
+                        )}
+                        <text x={8} y={14} className="chart-label oscillator-label">
+                          {chartOscillators.find((oscillator) => oscillator.id === chartOscillator)?.label}
+                        </text>
+                      </svg>
+                    )}
                     <div className="markets-price-card">
                       <div>
                         <span>last price</span>
                         <strong>{marketStats.latest.close.toFixed(4)} {TOKEN_TICKER}</strong>
                       </div>
                       <div>
-                        <span>5m change</span>
+                        <span>{timeframe} change</span>
                         <strong className={clsx({ positive: marketStats.priceChange >= 0, negative: marketStats.priceChange < 0 })}>
                           {formatSigned(marketStats.priceChange, 3)} {TOKEN_TICKER}
                         </strong>
@@ -1118,7 +3539,7 @@ export default function App() {
 
                   <div className="markets-metrics">
                     <article className="metric-card">
-                      <header>buyers (5m)</header>
+                      <header>buy fills ({timeframe})</header>
                       <strong>{marketStats.latest.buyers.toLocaleString()}</strong>
                       <span
                         className={clsx("metric-delta", {
@@ -1130,7 +3551,7 @@ export default function App() {
                       </span>
                     </article>
                     <article className="metric-card">
-                      <header>sellers (5m)</header>
+                      <header>sell fills ({timeframe})</header>
                       <strong>{marketStats.latest.sellers.toLocaleString()}</strong>
                       <span
                         className={clsx("metric-delta", {
@@ -1154,18 +3575,293 @@ export default function App() {
                       </span>
                     </article>
                     <article className="metric-card">
-                      <header>validator sentiment</header>
-                      <strong>
-                        {marketStats.priceChange >= 0 ? "bullish" : "neutral"}
-                      </strong>
-                      <span className="metric-delta">
-                        0xProtocol desks broadcasting AI-governed bids.
+                      <header>order-flow sentiment</header>
+                      <strong>{sentiment.label}</strong>
+                      <span
+                        className={clsx("metric-delta", {
+                          positive: sentiment.imbalance >= 0,
+                          negative: sentiment.imbalance < 0
+                        })}
+                      >
+                        book {formatSigned(sentiment.imbalance * 100, 0)}% · {Math.round(sentiment.buyShare * 100)}% buy
+                        fills
                       </span>
                     </article>
                   </div>
 
+                  <div className="markets-depth">
+                    <section className="order-ladder" aria-label="Order book">
+                      <h3>Order book</h3>
+                      {bookView ? (
+                        <table>
+                          <thead>
+                            <tr>
+                              <th scope="col">Price</th>
+                              <th scope="col">Size</th>
+                              <th scope="col">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {[...bookView.asks].reverse().map((level) => (
+                              <tr key={`ask-${level.price}`} className="ask">
+                                <td>{level.price.toFixed(4)}</td>
+                                <td>
+                                  <span
+                                    className="depth-bar"
+                                    style={{ width: `${(level.size / bookView.maxSize) * 100}%` }}
+                                    aria-hidden
+                                  />
+                                  {level.size.toFixed(2)}
+                                </td>
+                                <td>{level.total.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                            <tr className="spread-row">
+                              <td colSpan={3}>
+                                {bookView.spread
+                                  ? `spread ${bookView.spread.spread.toFixed(4)} · ${bookView.spread.spreadBps.toFixed(1)} bps · mid ${bookView.spread.mid.toFixed(4)}`
+                                  : "one-sided book"}
+                              </td>
+                            </tr>
+                            {bookView.bids.map((level) => (
+                              <tr key={`bid-${level.price}`} className="bid">
+                                <td>{level.price.toFixed(4)}</td>
+                                <td>
+                                  <span
+                                    className="depth-bar"
+                                    style={{ width: `${(level.size / bookView.maxSize) * 100}%` }}
+                                    aria-hidden
+                                  />
+                                  {level.size.toFixed(2)}
+                                </td>
+                                <td>{level.total.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="data-table-empty">Waiting for the first depth update…</p>
+                      )}
+                    </section>
+
+                    <section className="depth-chart" aria-label="Cumulative depth">
+                      <h3>Depth</h3>
+                      {bookView && (
+                        <svg
+                          viewBox={`0 0 ${DEPTH_CHART_WIDTH} ${DEPTH_CHART_HEIGHT}`}
+                          preserveAspectRatio="none"
+                          role="img"
+                          aria-label={`Cumulative depth, ${Math.round(bookView.maxTotal).toLocaleString()} ${TOKEN_TICKER} on the deeper side`}
+                        >
+                          <rect x={0} y={0} width={DEPTH_CHART_WIDTH} height={DEPTH_CHART_HEIGHT} className="chart-surface" />
+                          <path d={bookView.bidPath} className="depth-area bid" />
+                          <path d={bookView.askPath} className="depth-area ask" />
+                          <line
+                            x1={bookView.midX}
+                            x2={bookView.midX}
+                            y1={0}
+                            y2={DEPTH_CHART_HEIGHT}
+                            className="chart-grid"
+                          />
+                        </svg>
+                      )}
+                    </section>
+
+                    <section className="trade-tape" aria-label="Trade tape">
+                      <h3>Trade tape</h3>
+                      <div className="trade-tape-scroll">
+                        <table>
+                          <thead>
+                            <tr>
+                              <th scope="col">Time</th>
+                              <th scope="col">Side</th>
+                              <th scope="col">Price</th>
+                              <th scope="col">Size</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {tradeTape.map((tick) => (
+                              <tr key={tick.id} className={tick.side}>
+                                <td>{formatTime(tick.timestamp)}</td>
+                                <td>{tick.side}</td>
+                                <td>{tick.price.toFixed(4)}</td>
+                                <td>{tick.volume.toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </section>
+                  </div>
+
+                  <section className="trade-ticket" aria-labelledby="trade-ticket-heading">
+                    <h3 id="trade-ticket-heading">Trade ticket</h3>
+                    <p>
+                      Buy or sell {TOKEN_NAME} from {walletAddress ? shortHash(walletAddress) : "the active wallet"} at
+                      the latest close, adjusted for the depth the order would sweep. The desk charges{" "}
+                      {(DESK_FEE_BPS / 100).toFixed(2)}%. Buys are paid from the wallet's quote balance and sales
+                      credit it; every wallet opens with {formatAmount(DEFAULT_QUOTE_ALLOWANCE)} quote. Fills are
+                      queued in the mempool like transfers.
+                    </p>
+                    <p className="trade-estimate">
+                      wallet {formatAmount(walletBalance)} {TOKEN_TICKER} · {walletQuote.toFixed(4)} quote · desk{" "}
+                      {formatAmount(deskAccount.balance)} {TOKEN_TICKER} · {deskAccount.quote.toFixed(4)} quote
+                    </p>
+                    <form className="trade-form" onSubmit={handleReviewTrade}>
+                      <div className="trade-side" role="group" aria-label="Trade side">
+                        {(["buy", "sell"] as const).map((side) => (
+                          <button
+                            key={side}
+                            type="button"
+                            className={clsx("copy-button", side, tradeSide === side && "active")}
+                            aria-pressed={tradeSide === side}
+                            onClick={() => {
+                              setTradeSide(side);
+                              setTradeReview(null);
+                            }}
+                          >
+                            {side}
+                          </button>
+                        ))}
+                      </div>
+                      <label htmlFor="trade-size">size ({TOKEN_TICKER})</label>
+                      <input
+                        id="trade-size"
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="0.0000"
+                        value={tradeSize}
+                        onChange={(event) => {
+                          setTradeSize(event.target.value);
+                          setTradeReview(null);
+                        }}
+                      />
+                      <label htmlFor="trade-slippage">slippage tolerance</label>
+                      <select
+                        id="trade-slippage"
+                        value={tradeSlippageBps}
+                        onChange={(event) => setTradeSlippageBps(Number(event.target.value))}
+                      >
+                        {SLIPPAGE_OPTIONS_BPS.map((bps) => (
+                          <option key={bps} value={bps}>
+                            {(bps / 100).toFixed(2)}%
+                          </option>
+                        ))}
+                      </select>
+                      <button type="submit" disabled={!tradePreview.quote || tradeReview !== null}>
+                        review
+                      </button>
+                    </form>
+                    {tradePreview.quote && !tradeReview && (
+                      <p className="trade-estimate">
+                        ≈ {tradePreview.quote.price.toFixed(4)} per {TOKEN_TICKER} · impact{" "}
+                        {tradePreview.quote.impactBps.toFixed(1)} bps · fee {tradePreview.quote.fee.toFixed(4)} ·{" "}
+                        {tradeSide === "buy" ? "cost" : "proceeds"} {tradePreview.quote.quote.toFixed(4)}
+                      </p>
+                    )}
+                    {tradePreview.error && <p className="error">{tradePreview.error}</p>}
+                    {tradeReview && (
+                      <div className="trade-review" role="region" aria-label="Confirm trade">
+                        <dl>
+                          <dt>side</dt>
+                          <dd className={tradeReview.side}>{tradeReview.side}</dd>
+                          <dt>size</dt>
+                          <dd>
+                            {formatAmount(tradeReview.size)} {TOKEN_TICKER}
+                          </dd>
+                          <dt>quoted price</dt>
+                          <dd>{tradeReview.price.toFixed(4)}</dd>
+                          <dt>{tradeReview.side === "buy" ? "max price" : "min price"}</dt>
+                          <dd>{worstPrice(tradeReview, tradeSlippageBps).toFixed(4)}</dd>
+                          <dt>fee</dt>
+                          <dd>{tradeReview.fee.toFixed(4)}</dd>
+                          <dt>{tradeReview.side === "buy" ? "total cost" : "net proceeds"}</dt>
+                          <dd>{tradeReview.quote.toFixed(4)}</dd>
+                        </dl>
+                        <div className="mempool-actions">
+                          <button type="button" onClick={handleConfirmTrade}>
+                            confirm {tradeReview.side}
+                          </button>
+                          <button type="button" className="copy-button" onClick={() => setTradeReview(null)}>
+                            cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {tradeError && <p className="error">{tradeError}</p>}
+                    {tradeFeedback && <p className="success">{tradeFeedback}</p>}
+                  </section>
+
+                  <section className="alerts-panel" aria-labelledby="alerts-heading">
+                    <h3 id="alerts-heading">Price alerts</h3>
+                    <p>
+                      Rules are checked against 5m candles on every fill and fire once each time their condition becomes
+                      true. Alerts go to /feed/logs and a toast, and optionally to a browser notification.
+                    </p>
+                    <form className="alerts-form" onSubmit={handleAddAlert}>
+                      <label htmlFor="alert-kind">when</label>
+                      <select
+                        id="alert-kind"
+                        value={alertKind}
+                        onChange={(event) => setAlertKind(event.target.value as AlertKind)}
+                      >
+                        {alertKinds.map((kind) => (
+                          <option key={kind.id} value={kind.id}>
+                            {kind.label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        aria-label="Alert threshold"
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder={alertKinds.find((kind) => kind.id === alertKind)?.unit}
+                        value={alertThreshold}
+                        onChange={(event) => setAlertThreshold(event.target.value)}
+                      />
+                      <label className="alerts-notify">
+                        <input
+                          type="checkbox"
+                          checked={alertNotify}
+                          onChange={(event) => setAlertNotify(event.target.checked)}
+                        />
+                        browser notification
+                      </label>
+                      <button type="submit">add rule</button>
+                    </form>
+                    {alertFeedback && <p className="error">{alertFeedback}</p>}
+                    {alertRules.length === 0 ? (
+                      <p className="data-table-empty">No alert rules yet.</p>
+                    ) : (
+                      <ul className="alerts-list">
+                        {alertRules.map((rule) => (
+                          <li key={rule.id} className={clsx({ disabled: !rule.enabled })}>
+                            <span>{describeAlertRule(rule)}</span>
+                            <span className="alerts-meta">
+                              {rule.notify ? "toast + notification" : "toast"} ·{" "}
+                              {rule.lastTriggeredAt ? `last fired ${formatTime(rule.lastTriggeredAt)}` : "not fired yet"}
+                            </span>
+                            <button
+                              type="button"
+                              className="copy-button"
+                              aria-pressed={rule.enabled}
+                              onClick={() => updateAlertRule(rule.id, { enabled: !rule.enabled })}
+                            >
+                              {rule.enabled ? "pause" : "resume"}
+                            </button>
+                            <button type="button" className="copy-button" onClick={() => removeAlertRule(rule.id)}>
+                              remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+
                   <div className="markets-feed">
-                    <h3>Recent five-minute prints</h3>
+                    <h3>Recent {timeframeLabel} prints</h3>
                     <table>
                       <thead>
                         <tr>
@@ -1178,7 +3874,7 @@ export default function App() {
                         </tr>
                       </thead>
                       <tbody>
-                        {[...candles.slice(-6)].reverse().map((candle) => (
+                        {[...recentCandles.slice(-6)].reverse().map((candle) => (
                           <tr key={`feed-${candle.id}`}>
                             <td>{formatTime(candle.timestamp)}</td>
                             <td>{candle.open.toFixed(4)}</td>
@@ -1235,13 +3931,216 @@ export default function App() {
                     generate wallet
                   </button>
                   <div className="wallet-balance">
-                    <span>address</span>
-                    <strong>{walletAddress ? `${walletAddress.slice(0, 12)}…${walletAddress.slice(-6)}` : "—"}</strong>
+                    <label htmlFor="active-wallet">active account</label>
+                    {wallets.length > 0 ? (
+                      <select
+                        id="active-wallet"
+                        value={walletAddress}
+                        onChange={(event) => {
+                          const wallet = wallets.find((entry) => entry.address === event.target.value);
+                          if (wallet) handleSelectWallet(wallet);
+                        }}
+                      >
+                        {!activeWallet && <option value="">—</option>}
+                        {wallets.map((wallet) => (
+                          <option key={wallet.address} value={wallet.address}>
+                            {wallet.label || shortHash(wallet.address)} · {wallet.address.slice(0, 8)}…{wallet.address.slice(-4)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <strong>—</strong>
+                    )}
                   </div>
                   <div className="wallet-balance">
                     <span>balance</span>
                     <strong>{formatAmount(walletBalance)} {TOKEN_TICKER}</strong>
                   </div>
+                  <div className="wallet-balance">
+                    <span>quote</span>
+                    <strong>{walletQuote.toFixed(4)}</strong>
+                  </div>
+                </div>
+                <section className="wallet-portfolio" aria-labelledby="portfolio-heading">
+                  <h3 id="portfolio-heading">Portfolio</h3>
+                  {!portfolio ? (
+                    <p>Select or generate a wallet to value its {TOKEN_NAME} holdings.</p>
+                  ) : (
+                    <>
+                      <p>
+                        Valued at the latest close of {marketStats.latest.close.toFixed(4)} {TOKEN_TICKER}. Desk buys carry
+                        their quoted cost; faucet drips and transfers in are booked at the price when they arrived.
+                      </p>
+                      <dl className="portfolio-summary">
+                        <div>
+                          <dt>equity</dt>
+                          <dd>{formatAmount(portfolio.equity)}</dd>
+                        </div>
+                        <div>
+                          <dt>cost basis</dt>
+                          <dd>
+                            {formatAmount(portfolio.costBasis)} <em>avg {portfolio.averageCost.toFixed(4)}</em>
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>unrealised p&amp;l</dt>
+                          <dd className={clsx({ positive: portfolio.unrealized >= 0, negative: portfolio.unrealized < 0 })}>
+                            {formatSigned(portfolio.unrealized)}
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>realised p&amp;l</dt>
+                          <dd className={clsx({ positive: portfolio.realized >= 0, negative: portfolio.realized < 0 })}>
+                            {formatSigned(portfolio.realized)}
+                          </dd>
+                        </div>
+                        <div>
+                          <dt>desk fees</dt>
+                          <dd>{formatAmount(portfolio.fees)}</dd>
+                        </div>
+                      </dl>
+                      {equityView && (
+                        <svg
+                          className="equity-chart"
+                          viewBox={`0 0 ${EQUITY_CHART_WIDTH} ${EQUITY_CHART_HEIGHT}`}
+                          preserveAspectRatio="none"
+                          role="img"
+                          aria-label={`Equity since ${new Date(equityView.from).toLocaleString()}, peaking at ${formatAmount(equityView.max)}`}
+                        >
+                          <rect x={0} y={0} width={EQUITY_CHART_WIDTH} height={EQUITY_CHART_HEIGHT} className="chart-surface" />
+                          <path d={equityView.basisPath} className="equity-line basis" />
+                          <path d={equityView.equityPath} className="equity-line" />
+                        </svg>
+                      )}
+                      {portfolio.inflows.length > 0 && (
+                        <table className="portfolio-inflows">
+                          <thead>
+                            <tr>
+                              <th scope="col">inflow</th>
+                              <th scope="col">count</th>
+                              <th scope="col">{TOKEN_TICKER}</th>
+                              <th scope="col">booked at</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {portfolio.inflows.map((inflow) => (
+                              <tr key={inflow.source}>
+                                <td>{portfolioSources.find((source) => source.id === inflow.source)?.label ?? inflow.source}</td>
+                                <td>{inflow.count}</td>
+                                <td>{formatAmount(inflow.amount)}</td>
+                                <td>{formatAmount(inflow.value)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </>
+                  )}
+                </section>
+                <div className="wallet-keystore">
+                  <header>
+                    <span>keystore</span>
+                  </header>
+                  <label htmlFor="keystore-password">keystore password</label>
+                  <input
+                    id="keystore-password"
+                    name="keystore-password"
+                    type="password"
+                    placeholder="min. 8 characters"
+                    value={keystorePassword}
+                    onChange={(event) => setKeystorePassword(event.target.value)}
+                    autoComplete="new-password"
+                  />
+                  <div className="keystore-controls">
+                    <button type="button" onClick={handleExportKeystore} disabled={keystoreBusy || !walletAddress}>
+                      export keystore
+                    </button>
+                    <label className="file-button">
+                      import keystore
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImportKeystore}
+                        disabled={keystoreBusy}
+                      />
+                    </label>
+                  </div>
+                  <label htmlFor="import-secret">private key or mnemonic</label>
+                  <input
+                    id="import-secret"
+                    name="import-secret"
+                    type="password"
+                    placeholder="0x… private key or 12–24 word phrase"
+                    value={importSecret}
+                    onChange={(event) => setImportSecret(event.target.value)}
+                    autoComplete="off"
+                  />
+                  <div className="keystore-controls">
+                    <button type="button" onClick={handleImportSecret} disabled={keystoreBusy}>
+                      {keystoreBusy ? "working" : "import key"}
+                    </button>
+                  </div>
+                </div>
+                <div className="wallet-sessions">
+                  <header>
+                    <span>accounts</span>
+                    <button
+                      type="button"
+                      className="copy-button"
+                      onClick={handleForgetSession}
+                      disabled={wallets.length === 0 && faucetHistory.length === 0}
+                    >
+                      forget session
+                    </button>
+                  </header>
+                  {wallets.length === 0 ? (
+                    <p>
+                      Generated, imported, and Phantom accounts are listed here and restored on reload. Private keys are
+                      never written to storage; export a keystore to keep signing after a reload.
+                    </p>
+                  ) : (
+                    <ul>
+                      {wallets.map((wallet) => (
+                        <li key={wallet.address} className={clsx({ active: wallet.address === walletAddress })}>
+                          <input
+                            className="session-label"
+                            aria-label={`label for ${wallet.address}`}
+                            value={wallet.label}
+                            onChange={(event) => handleRenameWallet(wallet.address, event.target.value)}
+                            autoComplete="off"
+                          />
+                          <span>
+                            {shortHash(wallet.address)}{" "}
+                            <span className="session-kind">
+                              {wallet.address === phantomAddress || wallet.label === "phantom"
+                                ? "phantom"
+                                : wallet.privateKeyJwk
+                                ? "signing"
+                                : "keyless"}
+                            </span>
+                          </span>
+                          <span>{formatAmount(balanceOf(ledgerState, wallet.address))} {TOKEN_TICKER}</span>
+                          <span className="session-controls">
+                            <button
+                              type="button"
+                              className="copy-button"
+                              onClick={() => handleSelectWallet(wallet)}
+                              disabled={wallet.address === walletAddress}
+                            >
+                              {wallet.address === walletAddress ? "active" : "use"}
+                            </button>
+                            <button
+                              type="button"
+                              className="copy-button"
+                              onClick={() => setLedgerAccountFilter(wallet.address)}
+                            >
+                              ledger
+                            </button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
                 <form className="wallet-form" onSubmit={handleWalletSubmit} aria-describedby="wallet-feedback">
                   <label htmlFor="wallet-recipient">recipient</label>
@@ -1257,6 +4156,13 @@ export default function App() {
                   <label htmlFor="wallet-amount">amount</label>
                   <input
                     id="wallet-amount"
+                    ref={(node) => {
+                      if (node && focusWalletAmountRef.current) {
+                        focusWalletAmountRef.current = false;
+                        node.focus();
+                        node.select();
+                      }
+                    }}
                     name="wallet-amount"
                     placeholder="0.0000"
                     value={walletAmount}
@@ -1283,7 +4189,16 @@ export default function App() {
                     </ul>
                   </fieldset>
 
-                  <button type="submit">execute transfer</button>
+                  {replacingId && (
+                    <p className="wallet-replacing">
+                      replacing queued transfer {shortHash(ledger.find((entry) => entry.id === replacingId)?.hash ?? "")}{" "}
+                      <button type="button" className="copy-button" onClick={() => setReplacingId(null)}>
+                        keep original
+                      </button>
+                    </p>
+                  )}
+
+                  <button type="submit">{replacingId ? "replace transfer" : "execute transfer"}</button>
                 </form>
                 <div id="wallet-feedback" className="route-messages">
                   {walletFeedback && <p className="success">{walletFeedback}</p>}
@@ -1292,39 +4207,35 @@ export default function App() {
                 </div>
 
                 <div className="ledger-section">
-                  <h3>Wallet ledger</h3>
-                  <table className="ledger-table">
-                    <thead>
-                      <tr>
-                        <th scope="col">Hash</th>
-                        <th scope="col">Direction</th>
-                        <th scope="col">Counterparty</th>
-                        <th scope="col">Amount</th>
-                        <th scope="col">Memo</th>
-                        <th scope="col">Time</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {ledger
-                        .filter((entry) => entry.from === walletAddress || entry.to === walletAddress)
-                        .map((entry) => {
-                          const direction = entry.from === walletAddress ? "out" : "in";
-                          const counterparty = entry.from === walletAddress ? entry.to : entry.from;
-                          return (
-                            <tr key={`${entry.id}-wallet`}>
-                              <td>{shortHash(entry.hash)}</td>
-                              <td>
-                                <span className={clsx("status-pill", direction)}>{direction}</span>
-                              </td>
-                              <td>{shortHash(counterparty)}</td>
-                              <td>{formatAmount(entry.amount)} {TOKEN_TICKER}</td>
-                              <td>{entry.memo ?? "—"}</td>
-                              <td>{formatTime(entry.timestamp)}</td>
-                            </tr>
-                          );
-                        })}
-                    </tbody>
-                  </table>
+                  <header className="ledger-header">
+                    <h3>Wallet ledger</h3>
+                    <label htmlFor="ledger-account-filter" className="sr-only">
+                      ledger account filter
+                    </label>
+                    <select
+                      id="ledger-account-filter"
+                      value={ledgerAccountFilter}
+                      onChange={(event) => setLedgerAccountFilter(event.target.value)}
+                    >
+                      <option value="active">active account</option>
+                      <option value="all">all accounts</option>
+                      {wallets.map((wallet) => (
+                        <option key={wallet.address} value={wallet.address}>
+                          {wallet.label || shortHash(wallet.address)}
+                        </option>
+                      ))}
+                    </select>
+                  </header>
+                  <LedgerTable
+                    label="Wallet ledger"
+                    rows={walletLedger}
+                    entryOf={(row) => row.entry}
+                    rowKey={(row) => `${row.entry.id}-${row.account}-wallet`}
+                    columns={walletLedgerColumns}
+                    params={currentRoute.query}
+                    onParamsChange={replaceQuery}
+                    emptyMessage={wallets.length === 0 ? "Generate or import a wallet to populate its ledger." : undefined}
+                  />
                 </div>
               </div>
             )}
@@ -1374,6 +4285,70 @@ export default function App() {
         </AnimatePresence>
       </section>
 
+      <AnimatePresence>
+        {keymapOpen && (
+          <motion.div
+            className="keymap-overlay"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.18 }}
+            onClick={() => setKeymapOpen(false)}
+          >
+            <div
+              className="keymap-panel"
+              role="dialog"
+              aria-modal="true"
+              aria-label="keyboard shortcuts"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <header>
+                <h2>/sys/keymap</h2>
+                <button type="button" className="copy-button" onClick={() => setKeymapOpen(false)}>
+                  close
+                </button>
+              </header>
+              {groupBindings(keyBindings).map(([group, bindings]) => (
+                <section key={group}>
+                  <h3>{group}</h3>
+                  <dl>
+                    {bindings.map((binding) => (
+                      <div key={binding.key}>
+                        <dt>
+                          <kbd>{binding.key === "Escape" ? "esc" : binding.key}</kbd>
+                        </dt>
+                        <dd>{binding.description}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </section>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="toast-stack" role="status" aria-live="polite">
+        <AnimatePresence>
+          {toasts.map((toast) => (
+            <motion.div
+              key={toast.id}
+              className="toast"
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 12 }}
+              transition={{ duration: 0.2 }}
+            >
+              <strong>{toast.title}</strong>
+              <span>{toast.body}</span>
+              <button type="button" className="copy-button" onClick={() => dismissToast(toast.id)}>
+                dismiss
+              </button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
       <footer className="terminal-footer">
         <p>© {new Date().getFullYear()} 0xProtocol — autonomous Proof-of-AI commons.</p>
       </footer>
@@ -0,0 +1,75 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+import { describe, expect, it } from "vitest";
+import { EMPTY_TX_ROOT, GENESIS_PARENT_HASH, extendBlock, merkleRoot, sealBlock, verifyBlock } from "./block";
+import type { BlockEntry } from "./types";
+
+const leaf = (id: string) => sha256(utf8ToBytes(id));
+const node = (left: Uint8Array, right: Uint8Array) => sha256(concatBytes(left, right));
+const hex = (bytes: Uint8Array) => `0x${bytesToHex(bytes)}`;
+
+const block = (height: number, parentHash: string, txIds: string[] = []): BlockEntry =>
+  sealBlock({
+    height,
+    producer: "SYNAPSE",
+    tps: 100,
+    latency: 0.4,
+    txCount: txIds.length,
+    parentHash,
+    txIds,
+    commentary: "",
+    timestamp: `2026-10-19T00:00:0${height % 10}.000Z`
+  });
+
+describe("merkleRoot", () => {
+  it("is the zero root for an empty block and the leaf hash for a single id", () => {
+    expect(merkleRoot([])).toBe(EMPTY_TX_ROOT);
+    expect(merkleRoot(["a"])).toBe(hex(leaf("a")));
+  });
+
+  it("pairs an odd node out with itself", () => {
+    const expected = node(node(leaf("a"), leaf("b")), node(leaf("c"), leaf("c")));
+    expect(merkleRoot(["a", "b", "c"])).toBe(hex(expected));
+  });
+
+  it("depends on the order of the ids", () => {
+    expect(merkleRoot(["a", "b"])).not.toBe(merkleRoot(["b", "a"]));
+  });
+});
+
+describe("verifyBlock", () => {
+  const parent = block(1, GENESIS_PARENT_HASH);
+  const child = block(2, parent.hash, ["tx-1", "tx-2"]);
+
+  it("verifies a sealed block against its parent", () => {
+    expect(verifyBlock(child, parent)).toEqual({ txRoot: "verified", hash: "verified", parent: "verified" });
+  });
+
+  it("reports the parent link as unknown without a parent", () => {
+    expect(verifyBlock(child, null).parent).toBe("unknown");
+  });
+
+  it("flags tampered transactions, headers and parent links", () => {
+    expect(verifyBlock({ ...child, txIds: ["tx-1"] }, parent).txRoot).toBe("invalid");
+    expect(verifyBlock({ ...child, producer: "LUMEN" }, parent).hash).toBe("invalid");
+    expect(verifyBlock(child, block(1, GENESIS_PARENT_HASH, ["other"])).parent).toBe("invalid");
+    expect(verifyBlock(block(3, parent.hash), parent).parent).toBe("invalid");
+  });
+});
+
+describe("extendBlock", () => {
+  it("returns the block untouched when there is nothing to relink or append", () => {
+    const parent = block(1, GENESIS_PARENT_HASH);
+    const child = block(2, parent.hash);
+    expect(extendBlock(child, parent, [])).toBe(child);
+  });
+
+  it("relinks onto the local head, appends local ids and reseals", () => {
+    const head = block(1, GENESIS_PARENT_HASH, ["local"]);
+    const extended = extendBlock(block(2, GENESIS_PARENT_HASH, ["remote"]), head, ["tx-9"]);
+    expect(extended.parentHash).toBe(head.hash);
+    expect(extended.txIds).toEqual(["remote", "tx-9"]);
+    expect(extended.txCount).toBe(2);
+    expect(verifyBlock(extended, head)).toEqual({ txRoot: "verified", hash: "verified", parent: "verified" });
+  });
+});
@@ -0,0 +1,72 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+import type { BlockEntry } from "./types";
+
+export const GENESIS_PARENT_HASH = `0x${"0".repeat(64)}`;
+export const EMPTY_TX_ROOT = `0x${"0".repeat(64)}`;
+
+export type BlockHeader = Pick<BlockEntry, "height" | "parentHash" | "txRoot" | "producer" | "timestamp">;
+
+export type BlockCheck = "verified" | "invalid" | "unknown";
+
+export type BlockVerification = {
+  txRoot: BlockCheck;
+  hash: BlockCheck;
+  parent: BlockCheck;
+};
+
+const toHash = (bytes: Uint8Array): string => `0x${bytesToHex(bytes)}`;
+
+// Pairs leaf hashes level by level; an odd node out is paired with itself.
+export const merkleRoot = (ids: string[]): string => {
+  if (ids.length === 0) return EMPTY_TX_ROOT;
+  let level = ids.map((id) => sha256(utf8ToBytes(id)));
+  while (level.length > 1) {
+    const next: typeof level = [];
+    for (let index = 0; index < level.length; index += 2) {
+      const left = level[index];
+      const right = level[index + 1] ?? left;
+      next.push(sha256(concatBytes(left, right)));
+    }
+    level = next;
+  }
+  return toHash(level[0]);
+};
+
+export const canonicalHeader = (header: BlockHeader): string =>
+  JSON.stringify({
+    height: header.height,
+    parentHash: header.parentHash,
+    txRoot: header.txRoot,
+    producer: header.producer,
+    timestamp: header.timestamp
+  });
+
+export const blockHeaderHash = (header: BlockHeader): string => toHash(sha256(utf8ToBytes(canonicalHeader(header))));
+
+export const sealBlock = (block: Omit<BlockEntry, "hash" | "txRoot">): BlockEntry => {
+  const txRoot = merkleRoot(block.txIds);
+  return { ...block, txRoot, hash: blockHeaderHash({ ...block, txRoot }) };
+};
+
+// Re-links a block onto the local head and appends locally included transactions.
+export const extendBlock = (block: BlockEntry, parent: BlockEntry | null, txIds: string[]): BlockEntry => {
+  const parentHash = parent?.hash ?? block.parentHash;
+  if (txIds.length === 0 && parentHash === block.parentHash) return block;
+  return sealBlock({
+    ...block,
+    parentHash,
+    txIds: [...block.txIds, ...txIds],
+    txCount: block.txCount + txIds.length
+  });
+};
+
+export const verifyBlock = (block: BlockEntry, parent: BlockEntry | null): BlockVerification => ({
+  txRoot: merkleRoot(block.txIds) === block.txRoot ? "verified" : "invalid",
+  hash: blockHeaderHash(block) === block.hash ? "verified" : "invalid",
+  parent: !parent
+    ? "unknown"
+    : parent.hash === block.parentHash && parent.height === block.height - 1
+    ? "verified"
+    : "invalid"
+});
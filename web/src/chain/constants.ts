@@ -0,0 +1,3 @@
+// Target spacing between blocks. The simulator produces blocks at this rate, and replay falls back to it for
+// blocks whose timestamps cannot be compared.
+export const BLOCK_INTERVAL_MS = 5800;
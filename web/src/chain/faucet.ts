@@ -0,0 +1,31 @@
+import { randomBetween, randomHex } from "../lib/random";
+import { FAUCET_ADDRESS } from "./network";
+import type { LedgerEntry } from "./types";
+
+// What the faucet mints: a fixed credit for every wallet generated in the terminal, and a drip between
+// `dripMin` and `dripMax` (plus a random fraction) for each request.
+export const faucetPolicy = {
+  bootstrapCredit: 512.5,
+  dripMin: 24,
+  dripMax: 96
+} as const;
+
+export const faucetDripAmount = (): number => randomBetween(faucetPolicy.dripMin, faucetPolicy.dripMax) + Math.random();
+
+// Faucet credits are plain pending entries from the issuer, so they settle through the mempool like transfers.
+export const faucetCredit = (
+  to: string,
+  amount: number,
+  memo: string,
+  timestamp = new Date().toISOString()
+): LedgerEntry => ({
+  id: `tx-${Date.parse(timestamp)}-${randomHex(4)}`,
+  hash: `0x${randomHex(64)}`,
+  from: FAUCET_ADDRESS,
+  to,
+  amount,
+  memo,
+  status: "pending",
+  timestamp,
+  origin: "faucet"
+});
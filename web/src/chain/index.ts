@@ -0,0 +1,59 @@
+import { createRpcSource } from "./rpc";
+import { createSimulatedSource } from "./simulated";
+import type { ChainDataSource, ChainSourceKind } from "./types";
+
+export * from "./types";
+export {
+  BASE_HEIGHT,
+  DEFAULT_QUOTE_ALLOWANCE,
+  DESK_ADDRESS,
+  FAUCET_ADDRESS,
+  blockCommentaryPool,
+  explorerAddresses,
+  genesisAllocations,
+  issuerAddresses,
+  quoteAllocations,
+  slotLeader,
+  validatorAgents
+} from "./network";
+export type { ValidatorAgent } from "./network";
+export {
+  EMPTY_TX_ROOT,
+  GENESIS_PARENT_HASH,
+  blockHeaderHash,
+  extendBlock,
+  merkleRoot,
+  sealBlock,
+  verifyBlock
+} from "./block";
+export type { BlockCheck, BlockHeader, BlockVerification } from "./block";
+export { CONFIRMATION_DEPTH, advanceMempool, confirmationsOf, isQueued, mempoolStage, nextNonce } from "./mempool";
+export type { MempoolStage } from "./mempool";
+export {
+  accountOf,
+  balanceOf,
+  computeLedgerState,
+  isIssuer,
+  ledgerOrigins,
+  ledgerStatuses,
+  openingQuote,
+  quoteBalanceOf
+} from "./ledger";
+export type { AccountState, LedgerState } from "./ledger";
+export { faucetCredit, faucetDripAmount, faucetPolicy } from "./faucet";
+export { REPLAY_MAX_GAP_MS, replaySchedule } from "./replay";
+export type { ReplayStep } from "./replay";
+export { ChainRpcError } from "./rpc";
+
+const DEFAULT_RPC_URL = "ws://127.0.0.1:8546";
+
+const resolveSourceKind = (value: string | undefined): ChainSourceKind =>
+  value === "rpc" ? "rpc" : "simulated";
+
+export const createChainDataSource = (): ChainDataSource => {
+  const kind = resolveSourceKind(import.meta.env.VITE_CHAIN_SOURCE);
+  if (kind === "rpc") {
+    return createRpcSource(import.meta.env.VITE_CHAIN_RPC_URL || DEFAULT_RPC_URL);
+  }
+  return createSimulatedSource();
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { accountOf, balanceOf, computeLedgerState, openingQuote, quoteBalanceOf } from "./ledger";
+import { DEFAULT_QUOTE_ALLOWANCE, DESK_ADDRESS, FAUCET_ADDRESS } from "./network";
+import type { LedgerEntry, TradeFill } from "./types";
+
+const WALLET = "0xWallet";
+const OTHER = "0xOther";
+
+const entry = (id: string, from: string, to: string, amount: number, trade?: TradeFill): LedgerEntry => ({
+  id,
+  hash: `0x${id}`,
+  from,
+  to,
+  amount,
+  status: "pending",
+  timestamp: "2026-10-19T00:00:00.000Z",
+  origin: trade ? "desk" : "wallet",
+  trade
+});
+
+const fill = (side: TradeFill["side"], quote: number, fee: number): TradeFill => ({
+  side,
+  price: 1,
+  quote,
+  fee,
+  slippageBps: 0
+});
+
+const genesis = { [WALLET]: 100, [DESK_ADDRESS]: 1000 };
+const quotes = { [DESK_ADDRESS]: 5000 };
+
+describe("computeLedgerState", () => {
+  it("opens accounts at their genesis allocation and applies every entry, pending ones included", () => {
+    const state = computeLedgerState([entry("a", WALLET, OTHER, 30), entry("b", OTHER, WALLET, 5)], genesis, quotes);
+    expect(accountOf(state, WALLET)).toMatchObject({ genesis: 100, balance: 75, inflow: 5, outflow: 30, txCount: 2 });
+    expect(balanceOf(state, OTHER)).toBe(25);
+  });
+
+  it("matches addresses case-insensitively", () => {
+    const state = computeLedgerState([entry("a", WALLET.toLowerCase(), OTHER, 10)], genesis, quotes);
+    expect(balanceOf(state, WALLET.toUpperCase())).toBe(90);
+  });
+
+  it("lets issuers go negative and counts what they mint", () => {
+    const state = computeLedgerState([entry("a", FAUCET_ADDRESS, WALLET, 40)], genesis, quotes);
+    expect(balanceOf(state, FAUCET_ADDRESS)).toBe(-40);
+    expect(state.issued).toBe(40);
+  });
+
+  it("debits a buy's quote from the wallet and credits it to the desk", () => {
+    const state = computeLedgerState([entry("a", DESK_ADDRESS, WALLET, 10, fill("buy", 10.03, 0.03))], genesis, quotes);
+    expect(balanceOf(state, WALLET)).toBe(110);
+    expect(balanceOf(state, DESK_ADDRESS)).toBe(990);
+    expect(quoteBalanceOf(state, WALLET)).toBeCloseTo(DEFAULT_QUOTE_ALLOWANCE - 10.03, 10);
+    expect(quoteBalanceOf(state, DESK_ADDRESS)).toBeCloseTo(5010.03, 10);
+  });
+
+  it("pays a sell's net proceeds from the desk to the wallet", () => {
+    const state = computeLedgerState([entry("a", WALLET, DESK_ADDRESS, 10, fill("sell", 9.97, 0.03))], genesis, quotes);
+    expect(balanceOf(state, WALLET)).toBe(90);
+    expect(quoteBalanceOf(state, WALLET)).toBeCloseTo(DEFAULT_QUOTE_ALLOWANCE + 9.97, 10);
+    expect(quoteBalanceOf(state, DESK_ADDRESS)).toBeCloseTo(4990.03, 10);
+  });
+
+  it("leaves quote balances alone for plain transfers", () => {
+    const state = computeLedgerState([entry("a", WALLET, OTHER, 10)], genesis, quotes);
+    expect(quoteBalanceOf(state, WALLET)).toBe(DEFAULT_QUOTE_ALLOWANCE);
+    expect(quoteBalanceOf(state, OTHER)).toBe(DEFAULT_QUOTE_ALLOWANCE);
+  });
+});
+
+describe("openingQuote", () => {
+  it("uses the listed allocation, the default allowance, or nothing for issuers", () => {
+    expect(openingQuote(DESK_ADDRESS.toLowerCase(), quotes)).toBe(5000);
+    expect(openingQuote(WALLET, quotes)).toBe(DEFAULT_QUOTE_ALLOWANCE);
+    expect(openingQuote(FAUCET_ADDRESS, quotes)).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { DEFAULT_QUOTE_ALLOWANCE, genesisAllocations, issuerAddresses, quoteAllocations } from "./network";
+import type { LedgerEntry } from "./types";
+
+export type AccountState = {
+  address: string;
+  genesis: number;
+  balance: number;
+  inflow: number;
+  outflow: number;
+  txCount: number;
+  // Quote asset held for desk fills; only trades move it.
+  quote: number;
+};
+
+export type LedgerState = {
+  accounts: Map<string, AccountState>;
+  issued: number;
+};
+
+export const ledgerOrigins: LedgerEntry["origin"][] = ["wallet", "faucet", "desk"];
+export const ledgerStatuses: LedgerEntry["status"][] = ["pending", "confirmed"];
+
+const accountKey = (address: string): string => address.toLowerCase();
+
+const issuerKeys = new Set(issuerAddresses.map(accountKey));
+
+export const isIssuer = (address: string): boolean => issuerKeys.has(accountKey(address));
+
+export const openingQuote = (address: string, quotes: Record<string, number> = quoteAllocations): number => {
+  const listed = Object.entries(quotes).find(([holder]) => accountKey(holder) === accountKey(address));
+  if (listed) return listed[1];
+  return isIssuer(address) ? 0 : DEFAULT_QUOTE_ALLOWANCE;
+};
+
+export const computeLedgerState = (
+  ledger: LedgerEntry[],
+  genesis: Record<string, number> = genesisAllocations,
+  quotes: Record<string, number> = quoteAllocations
+): LedgerState => {
+  const accounts = new Map<string, AccountState>();
+  let issued = 0;
+
+  const account = (address: string): AccountState => {
+    const key = accountKey(address);
+    let state = accounts.get(key);
+    if (!state) {
+      state = {
+        address,
+        genesis: 0,
+        balance: 0,
+        inflow: 0,
+        outflow: 0,
+        txCount: 0,
+        quote: openingQuote(address, quotes)
+      };
+      accounts.set(key, state);
+    }
+    return state;
+  };
+
+  Object.entries(genesis).forEach(([address, amount]) => {
+    const state = account(address);
+    state.genesis += amount;
+    state.balance += amount;
+  });
+
+  ledger.forEach((entry) => {
+    const sender = account(entry.from);
+    const recipient = account(entry.to);
+    sender.balance -= entry.amount;
+    sender.outflow += entry.amount;
+    sender.txCount += 1;
+    recipient.balance += entry.amount;
+    recipient.inflow += entry.amount;
+    if (recipient !== sender) recipient.txCount += 1;
+    if (isIssuer(entry.from)) issued += entry.amount;
+    // Whoever receives the xLNR leg pays the quote leg: the wallet on a buy, the desk on a sell.
+    if (entry.trade) {
+      recipient.quote -= entry.trade.quote;
+      sender.quote += entry.trade.quote;
+    }
+  });
+
+  return { accounts, issued };
+};
+
+export const accountOf = (state: LedgerState, address: string): AccountState =>
+  state.accounts.get(accountKey(address)) ?? {
+    address,
+    genesis: 0,
+    balance: 0,
+    inflow: 0,
+    outflow: 0,
+    txCount: 0,
+    quote: openingQuote(address)
+  };
+
+export const balanceOf = (state: LedgerState, address: string): number => accountOf(state, address).balance;
+
+export const quoteBalanceOf = (state: LedgerState, address: string): number => accountOf(state, address).quote;
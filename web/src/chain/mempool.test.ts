@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { advanceMempool, confirmationsOf, isQueued, mempoolStage, nextNonce } from "./mempool";
+import type { LedgerEntry } from "./types";
+
+const entry = (id: string, changes: Partial<LedgerEntry> = {}): LedgerEntry => ({
+  id,
+  hash: `0x${id}`,
+  from: "0xWallet",
+  to: "0xOther",
+  amount: 1,
+  status: "pending",
+  timestamp: "2026-10-19T00:00:00.000Z",
+  origin: "wallet",
+  ...changes
+});
+
+describe("nextNonce", () => {
+  it("starts at zero for a sender with no nonces", () => {
+    expect(nextNonce([entry("a", { from: "0xSomeoneElse", nonce: 4 })], "0xWallet")).toBe(0);
+  });
+
+  it("is one past the highest nonce, so gaps left by cancelled transfers are not reused", () => {
+    const ledger = [entry("a", { nonce: 0 }), entry("c", { nonce: 2 }), entry("d")];
+    expect(nextNonce(ledger, "0xWallet")).toBe(3);
+  });
+});
+
+describe("advanceMempool", () => {
+  it("stamps queued entries the block includes and leaves the rest queued", () => {
+    const ledger = advanceMempool([entry("a"), entry("b")], new Set(["a"]), 10);
+    expect(ledger[0]).toMatchObject({ blockHeight: 10, status: "pending" });
+    expect(isQueued(ledger[1])).toBe(true);
+    expect(mempoolStage(ledger[0])).toBe("included");
+  });
+
+  it("never restamps an entry that is already included", () => {
+    const [included] = advanceMempool([entry("a", { blockHeight: 10 })], new Set(["a"]), 11);
+    expect(included.blockHeight).toBe(10);
+  });
+
+  it("confirms an entry once it is buried `depth` blocks deep", () => {
+    const ledger = [entry("a", { blockHeight: 10 })];
+    expect(advanceMempool(ledger, new Set(), 11, 3)[0].status).toBe("pending");
+    const [confirmed] = advanceMempool(ledger, new Set(), 12, 3);
+    expect(confirmed.status).toBe("confirmed");
+    expect(mempoolStage(confirmed)).toBe("confirmed");
+  });
+
+  it("returns the same ledger when no entry moves", () => {
+    const ledger = [entry("a"), entry("b", { status: "confirmed", blockHeight: 4 })];
+    expect(advanceMempool(ledger, new Set(["z"]), 10)).toBe(ledger);
+  });
+
+  it("confirms immediately at a depth of one", () => {
+    expect(advanceMempool([entry("a")], new Set(["a"]), 10, 1)[0].status).toBe("confirmed");
+  });
+});
+
+describe("confirmationsOf", () => {
+  it("counts the including block and every block above it", () => {
+    expect(confirmationsOf(entry("a"), 20)).toBe(0);
+    expect(confirmationsOf(entry("a", { blockHeight: 18 }), 20)).toBe(3);
+  });
+});
@@ -0,0 +1,41 @@
+import type { LedgerEntry } from "./types";
+
+export const CONFIRMATION_DEPTH = 3;
+
+export type MempoolStage = "queued" | "included" | "confirmed";
+
+export const isQueued = (entry: LedgerEntry): boolean =>
+  entry.status === "pending" && entry.blockHeight === undefined;
+
+export const confirmationsOf = (entry: LedgerEntry, tipHeight: number): number =>
+  entry.blockHeight === undefined ? 0 : Math.max(0, tipHeight - entry.blockHeight + 1);
+
+export const mempoolStage = (entry: LedgerEntry): MempoolStage =>
+  entry.status === "confirmed" ? "confirmed" : entry.blockHeight === undefined ? "queued" : "included";
+
+// One past the highest nonce the sender has used, so cancelling an older queued transfer never frees a live nonce.
+export const nextNonce = (ledger: LedgerEntry[], sender: string): number =>
+  ledger.reduce(
+    (next, entry) => (entry.from === sender && entry.nonce !== undefined ? Math.max(next, entry.nonce + 1) : next),
+    0
+  );
+
+// Stamps the given queued entries with the new block height, then confirms anything buried deep enough.
+// Returns `ledger` itself when no entry changed, so state updates can bail out.
+export const advanceMempool = (
+  ledger: LedgerEntry[],
+  includedIds: Set<string>,
+  height: number,
+  depth = CONFIRMATION_DEPTH
+): LedgerEntry[] => {
+  let changed = false;
+  const next = ledger.map((entry) => {
+    if (entry.status !== "pending") return entry;
+    const stamped = includedIds.has(entry.id) && isQueued(entry) ? { ...entry, blockHeight: height } : entry;
+    const advanced: LedgerEntry =
+      confirmationsOf(stamped, height) >= depth ? { ...stamped, status: "confirmed" } : stamped;
+    if (advanced !== entry) changed = true;
+    return advanced;
+  });
+  return changed ? next : ledger;
+};
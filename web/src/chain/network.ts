@@ -0,0 +1,139 @@
+import type { LedgerEntry, ValidatorStatus } from "./types";
+
+export const BASE_HEIGHT = 392410;
+
+export const FAUCET_ADDRESS = "0xProtocol::Faucet";
+export const DESK_ADDRESS = "0xProtocol::Desk";
+
+// Addresses that mint supply; they may carry negative balances in the ledger engine.
+export const issuerAddresses = [FAUCET_ADDRESS, "0x000000000000000000000000000000000000000F"];
+
+export const genesisAllocations: Record<string, number> = {
+  "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11": 993762.9309,
+  "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62": 539327.4734,
+  "0x59c4b7E7b119c6908E9A6E106D05b98B193cA3Db": 42.042,
+  [DESK_ADDRESS]: 250000
+};
+
+// Opening balances of the quote asset desk fills settle in. Accounts not listed open with the default allowance,
+// except issuers, which never hold quote.
+export const quoteAllocations: Record<string, number> = {
+  [DESK_ADDRESS]: 500000
+};
+export const DEFAULT_QUOTE_ALLOWANCE = 1000;
+
+export type ValidatorAgent = {
+  id: string;
+  role: string;
+  persona: string;
+  // Status at genesis; heartbeats move it from there.
+  status: ValidatorStatus;
+};
+
+export const validatorAgents: ValidatorAgent[] = [
+  {
+    id: "SYNAPSE",
+    role: "Lead sequencer",
+    persona: "Optimises rollup slots and orchestrates finality checkpoints.",
+    status: "active"
+  },
+  {
+    id: "HORIZON",
+    role: "Latency diviner",
+    persona: "Balances inter-shard gossip and forecasts congestion windows.",
+    status: "active"
+  },
+  {
+    id: "KOSMOS",
+    role: "Ethics auditor",
+    persona: "Evaluates proposals for governance and compliance alignment.",
+    status: "attesting"
+  },
+  {
+    id: "ECHO",
+    role: "Telemetry relay",
+    persona: "Streams attestations and notarises cross-domain receipts.",
+    status: "active"
+  },
+  {
+    id: "LUMEN",
+    role: "Alignment scribe",
+    persona: "Publishes upgrade records and maintains citizen-readable logs.",
+    status: "syncing"
+  },
+  {
+    id: "MYCELIA",
+    role: "Mesh expander",
+    persona: "Spawns sovereign rollups and provisions new validator replicas.",
+    status: "active"
+  }
+];
+
+// Round-robin leader schedule: every slot has exactly one validator expected to propose.
+export const slotLeader = (slot: number): string => validatorAgents[slot % validatorAgents.length].id;
+
+export const explorerAddresses = [
+  {
+    label: "treasury://ecosystem",
+    address: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
+    notes: "Ecosystem runway and grant allocations streamed quarterly in $xLNR."
+  },
+  {
+    label: "validator://synapse",
+    address: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
+    notes: "Sequencer collateral locked for epoch rotation."
+  },
+  {
+    label: "citizen://kez",
+    address: "0x59c4b7E7b119c6908E9A6E106D05b98B193cA3Db",
+    notes: "Community delegate participating in protocol votes."
+  }
+];
+
+export const blockCommentaryPool = [
+  "Validator caucus ratified AI-governed governance slate for epoch +1.",
+  "Bridged intents from sovereign rollups synced without contention.",
+  "Dynamic fee curves flattened latency spikes across execution shards.",
+  "Attestation quorum renewed AI alignment directives for community vault.",
+  "Rollup aggregator posted compressed proofs to the settlement bridge.",
+  "Sovereign appchain opt-in completed with deterministic replay checks.",
+  "Citizenship staking set unlocked an additional validator delegate.",
+  "Oracle mesh streamed macro metrics for AI monetary policy tuning.",
+  "Validator rotation triggered a new conversational governance round."
+];
+
+export const initialLedger: LedgerEntry[] = [
+  {
+    id: "tx-1",
+    hash: "0x8f3fad9bc2ab394f271d3cc61aa58cc0fe19d2c3a1dd8e7fd1b49ab7c2c3b45",
+    from: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
+    to: "0x59c4b7E7b119c6908E9A6E106D05b98B193cA3Db",
+    amount: 1250.4821,
+    memo: "community grants disbursement",
+    status: "confirmed",
+    timestamp: new Date(Date.now() - 1000 * 60 * 45).toISOString(),
+    origin: "wallet"
+  },
+  {
+    id: "tx-2",
+    hash: "0x5a4d2ef11bcd1771ab2cd9080c1fa5447d92d736ffa190ab6732c1dd8ea45f21",
+    from: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
+    to: "0x7E6fD42017b1105CFdf0f45C11a2dD67a4028C11",
+    amount: 32000,
+    memo: "epoch collateral refresh",
+    status: "confirmed",
+    timestamp: new Date(Date.now() - 1000 * 60 * 28).toISOString(),
+    origin: "wallet"
+  },
+  {
+    id: "tx-3",
+    hash: "0xc27e19fd01b4e9ab1cc08df73102a671ed8fbc201c5a8d7c3b71a9ef005c44a1",
+    from: "0x000000000000000000000000000000000000000F",
+    to: "0xa90EE72fDc4a8216584B671781976d74C4B9Ab62",
+    amount: 4800.75,
+    memo: "validator performance incentive",
+    status: "confirmed",
+    timestamp: new Date(Date.now() - 1000 * 60 * 11).toISOString(),
+    origin: "faucet"
+  }
+];
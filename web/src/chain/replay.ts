@@ -0,0 +1,19 @@
+import { BLOCK_INTERVAL_MS } from "./constants";
+import type { BlockEntry } from "./types";
+
+export const REPLAY_MAX_GAP_MS = BLOCK_INTERVAL_MS * 4;
+
+export type ReplayStep = {
+  block: BlockEntry;
+  delay: number;
+};
+
+// Orders blocks oldest-first and spaces them by their original timestamp gaps, capped so long pauses stay watchable.
+export const replaySchedule = (blocks: BlockEntry[]): ReplayStep[] =>
+  [...blocks]
+    .sort((a, b) => a.height - b.height)
+    .map((block, index, ordered) => {
+      const previous = ordered[index - 1];
+      const gap = previous ? Date.parse(block.timestamp) - Date.parse(previous.timestamp) : 0;
+      return { block, delay: Number.isFinite(gap) ? Math.min(Math.max(gap, 0), REPLAY_MAX_GAP_MS) : BLOCK_INTERVAL_MS };
+    });
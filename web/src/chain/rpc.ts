@@ -0,0 +1,182 @@
+import type {
+  BlockEntry,
+  ChainDataSource,
+  ChainListener,
+  ChainSnapshot,
+  LedgerEntry,
+  OrderBook,
+  TickEntry,
+  ValidatorHeartbeat
+} from "./types";
+
+type RpcChannel = "blocks" | "ledger" | "ticks" | "orderbook" | "heartbeats";
+
+type RpcResponse = {
+  jsonrpc: "2.0";
+  id?: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+  method?: string;
+  params?: { subscription: string; result: unknown };
+};
+
+type PendingCall = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+export class ChainRpcError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = "ChainRpcError";
+  }
+}
+
+export const createRpcSource = (url: string): ChainDataSource => {
+  const listeners: { [K in RpcChannel]: Set<ChainListener<never>> } = {
+    blocks: new Set(),
+    ledger: new Set(),
+    ticks: new Set(),
+    orderbook: new Set(),
+    heartbeats: new Set()
+  };
+  const subscriptions = new Map<string, RpcChannel>();
+  const pending = new Map<number, PendingCall>();
+  const outbox: string[] = [];
+
+  let socket: WebSocket | null = null;
+  let nextId = 1;
+  let reconnectDelay = RECONNECT_BASE_MS;
+  let reconnectTimer: number | null = null;
+  let disposed = false;
+
+  const send = (payload: string) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    } else {
+      outbox.push(payload);
+    }
+  };
+
+  const call = <T,>(method: string, params: unknown[] = []): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId;
+      nextId += 1;
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+      connect();
+    });
+
+  const subscribeChannel = (channel: RpcChannel) => {
+    call<string>("xp_subscribe", [channel])
+      .then((subscriptionId) => subscriptions.set(subscriptionId, channel))
+      .catch(() => {
+        // resubscribed on the next successful reconnect
+      });
+  };
+
+  const handleMessage = (event: MessageEvent<string>) => {
+    let message: RpcResponse;
+    try {
+      message = JSON.parse(event.data) as RpcResponse;
+    } catch {
+      return;
+    }
+
+    if (message.method === "xp_subscription" && message.params) {
+      const channel = subscriptions.get(message.params.subscription);
+      if (channel) {
+        const value = message.params.result as never;
+        listeners[channel].forEach((listener) => listener(value));
+      }
+      return;
+    }
+
+    if (typeof message.id !== "number") return;
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    if (message.error) {
+      entry.reject(new ChainRpcError(message.error.message, message.error.code));
+    } else {
+      entry.resolve(message.result);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (disposed || reconnectTimer !== null) return;
+    reconnectTimer = window.setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+  };
+
+  function connect() {
+    if (disposed || socket) return;
+
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.addEventListener("open", () => {
+      reconnectDelay = RECONNECT_BASE_MS;
+      outbox.splice(0).forEach((payload) => ws.send(payload));
+      subscriptions.clear();
+      (Object.keys(listeners) as RpcChannel[]).forEach((channel) => {
+        if (listeners[channel].size > 0) subscribeChannel(channel);
+      });
+    });
+    ws.addEventListener("message", handleMessage);
+    ws.addEventListener("close", () => {
+      socket = null;
+      outbox.length = 0;
+      pending.forEach((entry) => entry.reject(new ChainRpcError(`connection to ${url} closed`)));
+      pending.clear();
+      scheduleReconnect();
+    });
+  }
+
+  const subscribe = <T,>(channel: RpcChannel, listener: ChainListener<T>) => {
+    const channelListeners = listeners[channel] as Set<ChainListener<T>>;
+    channelListeners.add(listener);
+    if (channelListeners.size === 1 && socket?.readyState === WebSocket.OPEN) {
+      subscribeChannel(channel);
+    }
+    connect();
+    return () => {
+      channelListeners.delete(listener);
+      if (channelListeners.size > 0) return;
+      subscriptions.forEach((subscribed, subscriptionId) => {
+        if (subscribed !== channel) return;
+        subscriptions.delete(subscriptionId);
+        call("xp_unsubscribe", [subscriptionId]).catch(() => {
+          // the node drops subscriptions with the socket anyway
+        });
+      });
+    };
+  };
+
+  return {
+    kind: "rpc",
+    label: url,
+    loadSnapshot: () => call<ChainSnapshot>("xp_getSnapshot"),
+    subscribeBlocks: (listener: ChainListener<BlockEntry>) => subscribe("blocks", listener),
+    subscribeLedger: (listener: ChainListener<LedgerEntry>) => subscribe("ledger", listener),
+    subscribeTicks: (listener: ChainListener<TickEntry>) => subscribe("ticks", listener),
+    subscribeOrderBook: (listener: ChainListener<OrderBook>) => subscribe("orderbook", listener),
+    subscribeHeartbeats: (listener: ChainListener<ValidatorHeartbeat>) => subscribe("heartbeats", listener),
+    dispose: () => {
+      disposed = true;
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      socket?.close();
+      socket = null;
+      Object.values(listeners).forEach((set) => set.clear());
+    }
+  };
+};
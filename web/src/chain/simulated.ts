@@ -0,0 +1,268 @@
+import { randomBetween, randomFrom } from "../lib/random";
+import { GENESIS_PARENT_HASH, sealBlock } from "./block";
+import { BLOCK_INTERVAL_MS } from "./constants";
+import { BASE_HEIGHT, blockCommentaryPool, initialLedger, slotLeader, validatorAgents } from "./network";
+import type {
+  BlockEntry,
+  ChainDataSource,
+  ChainListener,
+  ChainSnapshot,
+  LedgerEntry,
+  OrderBook,
+  OrderLevel,
+  TickEntry,
+  ValidatorHeartbeat,
+  ValidatorStatus
+} from "./types";
+
+export const TICK_INTERVAL_MS = 2000;
+export const HEARTBEAT_INTERVAL_MS = 4000;
+
+const SEED_HISTORY_MS = 7 * 24 * 60 * 60_000;
+const SEED_COARSE_STEP_MS = 5 * 60_000;
+const SEED_RECENT_MS = 3 * 60 * 60_000;
+const SEED_RECENT_STEP_MS = 15_000;
+
+const BASE_SLOT = 418_260;
+const SEED_SLOTS = 72;
+const JAIL_AFTER_MISSES = 3;
+const JAIL_HEARTBEATS = 6;
+
+// Chance that a scheduled leader fails to propose in its slot.
+const missChance: Record<ValidatorStatus, number> = { active: 0.02, attesting: 0.05, syncing: 0.7, jailed: 1 };
+
+type ValidatorState = { status: ValidatorStatus; missStreak: number; jailedFor: number };
+
+const BOOK_DEPTH = 14;
+const BOOK_PRICE_STEP = 0.0025;
+
+export const buildOrderBook = (mid: number, timestamp = new Date()): OrderBook => {
+  const halfSpread = (BOOK_PRICE_STEP * randomBetween(1, 4)) / 2;
+  const level = (price: number, index: number): OrderLevel => ({
+    price: Number(price.toFixed(4)),
+    size: Number((randomBetween(30, 240) * (1 + index * 0.2) + Math.random()).toFixed(2))
+  });
+  return {
+    bids: Array.from({ length: BOOK_DEPTH }, (_, index) => level(mid - halfSpread - index * BOOK_PRICE_STEP, index)),
+    asks: Array.from({ length: BOOK_DEPTH }, (_, index) => level(mid + halfSpread + index * BOOK_PRICE_STEP, index)),
+    timestamp: timestamp.toISOString()
+  };
+};
+
+// Each fill takes liquidity from the touch, so tape prices always sit on the book.
+export const buildTick = (
+  previous: TickEntry | null,
+  book: OrderBook,
+  timestamp: Date,
+  indexSeed = 0
+): TickEntry => {
+  const side: TickEntry["side"] = Math.random() < 0.52 ? "buy" : "sell";
+  const touch = side === "buy" ? book.asks[0] : book.bids[0];
+  return {
+    id: `tick-${timestamp.getTime()}-${indexSeed}`,
+    price: touch.price,
+    volume: Number(Math.min(touch.size, randomBetween(5, 140) + Math.random()).toFixed(2)),
+    side,
+    holders: (previous?.holders ?? 24800) + (Math.random() < 0.5 ? 1 : 0),
+    timestamp: timestamp.toISOString()
+  };
+};
+
+const fillBook = (book: OrderBook, tick: TickEntry): OrderBook => {
+  const consume = (levels: OrderLevel[]) =>
+    levels
+      .map((level, index) => (index === 0 ? { ...level, size: Number((level.size - tick.volume).toFixed(2)) } : level))
+      .filter((level) => level.size > 0);
+  return tick.side === "buy" ? { ...book, asks: consume(book.asks) } : { ...book, bids: consume(book.bids) };
+};
+
+// Aggressive flow nudges the mid toward the side that crossed the spread.
+const walkMid = (mid: number, side: TickEntry["side"]): number => {
+  const pressure = side === "buy" ? 0.0002 : -0.0002;
+  const noise = (Math.random() - 0.5) * 0.004;
+  return Math.max(mid * (1 + pressure + noise), 0.01);
+};
+
+// A week of coarse fills followed by a denser recent window, so every timeframe has history to aggregate.
+export const seedTicks = (now = Date.now()): TickEntry[] => {
+  const ticks: TickEntry[] = [];
+  let mid = 12.4 + Math.random() * 0.4;
+  const push = (time: number) => {
+    const date = new Date(time);
+    const tick = buildTick(ticks[ticks.length - 1] ?? null, buildOrderBook(mid, date), date, ticks.length);
+    ticks.push(tick);
+    mid = walkMid(mid, tick.side);
+  };
+  for (let time = now - SEED_HISTORY_MS; time < now - SEED_RECENT_MS; time += SEED_COARSE_STEP_MS) push(time);
+  for (let time = now - SEED_RECENT_MS; time <= now; time += SEED_RECENT_STEP_MS) push(time);
+  return ticks;
+};
+
+export const buildBlock = (parent: BlockEntry | null, height: number, slot: number, date = new Date()): BlockEntry => {
+  const producer = slotLeader(slot);
+  const latency = (randomBetween(300, 440) + (slot % validatorAgents.length) * 9) / 1000;
+  const tps = randomBetween(88000, 112000);
+  const txCount = randomBetween(1800, 2600);
+  return sealBlock({
+    height,
+    producer,
+    tps,
+    latency,
+    txCount,
+    parentHash: parent?.hash ?? GENESIS_PARENT_HASH,
+    txIds: [],
+    commentary: randomFrom(blockCommentaryPool),
+    timestamp: date.toISOString(),
+    slot
+  });
+};
+
+// Leaders miss slots according to their genesis status, so the roster has a track record before the first live block.
+// Built oldest-first so each block links to its parent, returned newest-first like the live feed.
+const seedBlocks = (now = Date.now()): BlockEntry[] => {
+  const slots = Array.from({ length: SEED_SLOTS }, (_, index) => BASE_SLOT - SEED_SLOTS + 1 + index).filter((slot) => {
+    const leader = validatorAgents.find((agent) => agent.id === slotLeader(slot));
+    return slot === BASE_SLOT || Math.random() >= missChance[leader?.status ?? "active"];
+  });
+  const blocks: BlockEntry[] = [];
+  slots.forEach((slot, index) => {
+    const height = BASE_HEIGHT - (slots.length - 1 - index);
+    blocks.unshift(buildBlock(blocks[0] ?? null, height, slot, new Date(now - (BASE_SLOT - slot) * BLOCK_INTERVAL_MS)));
+  });
+  return blocks;
+};
+
+// Leaders that keep missing their slots are jailed; jailed validators resync before they rejoin.
+const nextValidatorState = (state: ValidatorState): ValidatorState => {
+  if (state.status === "jailed") {
+    return state.jailedFor > 1
+      ? { ...state, jailedFor: state.jailedFor - 1 }
+      : { status: "syncing", missStreak: 0, jailedFor: 0 };
+  }
+  if (state.missStreak >= JAIL_AFTER_MISSES) return { status: "jailed", missStreak: 0, jailedFor: JAIL_HEARTBEATS };
+  const roll = Math.random();
+  switch (state.status) {
+    case "active":
+      return { ...state, status: roll < 0.03 ? "syncing" : roll < 0.08 ? "attesting" : "active" };
+    case "attesting":
+      return { ...state, status: roll < 0.25 ? "active" : "attesting" };
+    case "syncing":
+      return { ...state, status: roll < 0.2 ? "active" : "syncing" };
+  }
+};
+
+export const createSimulatedSource = (): ChainDataSource => {
+  const blockListeners = new Set<ChainListener<BlockEntry>>();
+  const ledgerListeners = new Set<ChainListener<LedgerEntry>>();
+  const tickListeners = new Set<ChainListener<TickEntry>>();
+  const orderBookListeners = new Set<ChainListener<OrderBook>>();
+  const heartbeatListeners = new Set<ChainListener<ValidatorHeartbeat>>();
+  const validators = new Map<string, ValidatorState>(
+    validatorAgents.map((agent) => [agent.id, { status: agent.status, missStreak: 0, jailedFor: 0 }])
+  );
+
+  let head: BlockEntry | null = null;
+  let slot = BASE_SLOT;
+  let latestTick: TickEntry | null = null;
+  let tickCount = 0;
+  let mid = 12.4;
+  let blockTimer: number | null = null;
+  let tickTimer: number | null = null;
+  let heartbeatTimer: number | null = null;
+
+  const startTimers = () => {
+    if (blockTimer === null) {
+      blockTimer = window.setInterval(() => {
+        slot += 1;
+        const leader = validators.get(slotLeader(slot));
+        if (leader && Math.random() < missChance[leader.status]) {
+          leader.missStreak += 1;
+          return;
+        }
+        if (leader) leader.missStreak = 0;
+        const block = buildBlock(head, (head?.height ?? BASE_HEIGHT) + 1, slot);
+        head = block;
+        blockListeners.forEach((listener) => listener(block));
+      }, BLOCK_INTERVAL_MS);
+    }
+
+    if (heartbeatTimer === null) {
+      heartbeatTimer = window.setInterval(() => {
+        const timestamp = new Date().toISOString();
+        validators.forEach((state, validator) => {
+          const next = nextValidatorState(state);
+          validators.set(validator, next);
+          heartbeatListeners.forEach((listener) => listener({ validator, status: next.status, timestamp }));
+        });
+      }, HEARTBEAT_INTERVAL_MS);
+    }
+
+    if (tickTimer === null) {
+      tickTimer = window.setInterval(() => {
+        tickCount += 1;
+        const now = new Date();
+        const book = buildOrderBook(mid, now);
+        const tick = buildTick(latestTick, book, now, tickCount);
+        latestTick = tick;
+        mid = walkMid(mid, tick.side);
+        const filled = fillBook(book, tick);
+        orderBookListeners.forEach((listener) => listener(filled));
+        tickListeners.forEach((listener) => listener(tick));
+      }, TICK_INTERVAL_MS);
+    }
+  };
+
+  const stopTimers = () => {
+    if (blockTimer !== null) {
+      window.clearInterval(blockTimer);
+      blockTimer = null;
+    }
+    if (tickTimer !== null) {
+      window.clearInterval(tickTimer);
+      tickTimer = null;
+    }
+    if (heartbeatTimer !== null) {
+      window.clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  const subscribe = <T,>(listeners: Set<ChainListener<T>>, listener: ChainListener<T>) => {
+    listeners.add(listener);
+    startTimers();
+    return () => {
+      listeners.delete(listener);
+      const total =
+        blockListeners.size + ledgerListeners.size + tickListeners.size + orderBookListeners.size + heartbeatListeners.size;
+      if (total === 0) stopTimers();
+    };
+  };
+
+  return {
+    kind: "simulated",
+    label: "simulated federation",
+    loadSnapshot: async (): Promise<ChainSnapshot> => {
+      const blocks = seedBlocks();
+      const ticks = seedTicks();
+      head = blocks[0] ?? head;
+      slot = head?.slot ?? slot;
+      latestTick = ticks[ticks.length - 1] ?? null;
+      tickCount = ticks.length;
+      mid = latestTick?.price ?? mid;
+      return { blocks, ledger: initialLedger, ticks };
+    },
+    subscribeBlocks: (listener) => subscribe(blockListeners, listener),
+    subscribeLedger: (listener) => subscribe(ledgerListeners, listener),
+    subscribeTicks: (listener) => subscribe(tickListeners, listener),
+    subscribeOrderBook: (listener) => subscribe(orderBookListeners, listener),
+    subscribeHeartbeats: (listener) => subscribe(heartbeatListeners, listener),
+    dispose: () => {
+      blockListeners.clear();
+      ledgerListeners.clear();
+      tickListeners.clear();
+      orderBookListeners.clear();
+      heartbeatListeners.clear();
+      stopTimers();
+    }
+  };
+};
@@ -0,0 +1,118 @@
+export type BlockEntry = {
+  height: number;
+  producer: string;
+  tps: number;
+  latency: number;
+  txCount: number;
+  hash: string;
+  parentHash: string;
+  txRoot: string;
+  txIds: string[];
+  commentary: string;
+  timestamp: string;
+  // Leader-schedule slot. Slots skipped between consecutive blocks were missed by their scheduled leader.
+  slot?: number;
+};
+
+export type LedgerEntry = {
+  id: string;
+  hash: string;
+  from: string;
+  to: string;
+  amount: number;
+  memo?: string;
+  status: "confirmed" | "pending";
+  timestamp: string;
+  origin: "wallet" | "faucet" | "desk";
+  nonce?: number;
+  signature?: string;
+  publicKey?: string;
+  blockHeight?: number;
+  trade?: TradeFill;
+};
+
+// Execution details of a desk fill. The entry's `amount` is the xLNR leg; `quote` is the cost of a buy or the
+// proceeds of a sell after `fee`, in quote units.
+export type TradeFill = {
+  side: "buy" | "sell";
+  price: number;
+  quote: number;
+  fee: number;
+  slippageBps: number;
+};
+
+export type FaucetEntry = {
+  id: string;
+  amount: number;
+  to: string;
+  timestamp: string;
+  status: "completed" | "pending";
+};
+
+export type CandleEntry = {
+  id: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  buyers: number;
+  sellers: number;
+  holders: number;
+  timestamp: string;
+};
+
+// A single fill from the trade tape; candles of any timeframe are aggregated from these.
+// `side` is the aggressor: a buy lifts the best ask, a sell hits the best bid.
+export type TickEntry = {
+  id: string;
+  price: number;
+  volume: number;
+  side: "buy" | "sell";
+  holders: number;
+  timestamp: string;
+};
+
+export type OrderLevel = {
+  price: number;
+  size: number;
+};
+
+// Bids are sorted best (highest) first and asks best (lowest) first.
+export type OrderBook = {
+  bids: OrderLevel[];
+  asks: OrderLevel[];
+  timestamp: string;
+};
+
+export type ChainSourceKind = "simulated" | "rpc";
+
+export type ChainSnapshot = {
+  blocks: BlockEntry[];
+  ledger: LedgerEntry[];
+  ticks: TickEntry[];
+};
+
+export type ValidatorStatus = "active" | "attesting" | "syncing" | "jailed";
+
+export type ValidatorHeartbeat = {
+  validator: string;
+  status: ValidatorStatus;
+  timestamp: string;
+};
+
+export type Unsubscribe = () => void;
+
+export type ChainListener<T> = (value: T) => void;
+
+export interface ChainDataSource {
+  readonly kind: ChainSourceKind;
+  readonly label: string;
+  loadSnapshot: () => Promise<ChainSnapshot>;
+  subscribeBlocks: (listener: ChainListener<BlockEntry>) => Unsubscribe;
+  subscribeLedger: (listener: ChainListener<LedgerEntry>) => Unsubscribe;
+  subscribeTicks: (listener: ChainListener<TickEntry>) => Unsubscribe;
+  subscribeOrderBook: (listener: ChainListener<OrderBook>) => Unsubscribe;
+  subscribeHeartbeats: (listener: ChainListener<ValidatorHeartbeat>) => Unsubscribe;
+  dispose: () => void;
+}
@@ -0,0 +1,192 @@
+import type { ReactNode } from "react";
+import { ledgerOrigins, ledgerStatuses } from "../chain";
+import type { LedgerEntry } from "../chain";
+import { DEFAULT_LEDGER_QUERY, applyLedgerQuery, readLedgerQuery, writeLedgerQuery } from "../explorer/ledgerQuery";
+import type { LedgerQuery, LedgerSortKey } from "../explorer/ledgerQuery";
+import { paginate } from "../lib/paging";
+
+export const LEDGER_PAGE_SIZE = 20;
+
+export type LedgerColumn<T> = {
+  key: string;
+  header: string;
+  sort?: LedgerSortKey;
+  render: (row: T) => ReactNode;
+};
+
+type LedgerTableProps<T> = {
+  label: string;
+  rows: T[];
+  entryOf: (row: T) => LedgerEntry;
+  rowKey: (row: T) => string;
+  columns: LedgerColumn<T>[];
+  params: URLSearchParams;
+  onParamsChange: (next: URLSearchParams) => void;
+  queryPrefix?: string;
+  pageSize?: number;
+  emptyMessage?: string;
+};
+
+const parseAmountInput = (value: string): number | null => {
+  if (value.trim() === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export const LedgerTable = <T,>({
+  label,
+  rows,
+  entryOf,
+  rowKey,
+  columns,
+  params,
+  onParamsChange,
+  queryPrefix = "",
+  pageSize = LEDGER_PAGE_SIZE,
+  emptyMessage = "No ledger entries match these filters."
+}: LedgerTableProps<T>) => {
+  const query = readLedgerQuery(params, queryPrefix);
+  const filtered = applyLedgerQuery(rows, entryOf, query);
+  const page = paginate(filtered, query.page, pageSize);
+  const isFiltered =
+    query.origin !== "all" || query.status !== "all" || query.min !== null || query.max !== null || query.memo !== "";
+
+  const update = (changes: Partial<LedgerQuery>) =>
+    onParamsChange(writeLedgerQuery(params, { ...query, page: 1, ...changes }, queryPrefix));
+
+  const toggleSort = (key: LedgerSortKey) =>
+    update({
+      sort: key,
+      direction: query.sort === key && query.direction === "desc" ? "asc" : "desc"
+    });
+
+  const fieldId = (name: string) => `${label.replace(/\W+/g, "-").toLowerCase()}-${name}`;
+
+  return (
+    <div className="data-table">
+      <div className="data-table-controls" role="group" aria-label={`${label} filters`}>
+        <label htmlFor={fieldId("origin")}>origin</label>
+        <select
+          id={fieldId("origin")}
+          value={query.origin}
+          onChange={(event) => update({ origin: event.target.value as LedgerQuery["origin"] })}
+        >
+          <option value="all">all</option>
+          {ledgerOrigins.map((origin) => (
+            <option key={origin} value={origin}>
+              {origin}
+            </option>
+          ))}
+        </select>
+        <label htmlFor={fieldId("status")}>status</label>
+        <select
+          id={fieldId("status")}
+          value={query.status}
+          onChange={(event) => update({ status: event.target.value as LedgerQuery["status"] })}
+        >
+          <option value="all">all</option>
+          {ledgerStatuses.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+        <label htmlFor={fieldId("min")}>amount</label>
+        <input
+          id={fieldId("min")}
+          type="number"
+          min={0}
+          step="any"
+          placeholder="min"
+          value={query.min ?? ""}
+          onChange={(event) => update({ min: parseAmountInput(event.target.value) })}
+        />
+        <input
+          aria-label={`${label} maximum amount`}
+          type="number"
+          min={0}
+          step="any"
+          placeholder="max"
+          value={query.max ?? ""}
+          onChange={(event) => update({ max: parseAmountInput(event.target.value) })}
+        />
+        <label htmlFor={fieldId("memo")}>memo</label>
+        <input
+          id={fieldId("memo")}
+          type="search"
+          placeholder="contains…"
+          value={query.memo}
+          onChange={(event) => update({ memo: event.target.value })}
+        />
+        {isFiltered && (
+          <button
+            type="button"
+            className="copy-button"
+            onClick={() => update({ ...DEFAULT_LEDGER_QUERY, sort: query.sort, direction: query.direction })}
+          >
+            reset
+          </button>
+        )}
+      </div>
+      <table className="ledger-table">
+        <thead>
+          <tr>
+            {columns.map(({ key, header, sort }) => {
+              const active = sort !== undefined && sort === query.sort;
+              return (
+                <th
+                  key={key}
+                  scope="col"
+                  aria-sort={active ? (query.direction === "asc" ? "ascending" : "descending") : undefined}
+                >
+                  {sort ? (
+                    <button type="button" className="sort-button" onClick={() => toggleSort(sort)}>
+                      {header}
+                      {active ? (query.direction === "asc" ? " ↑" : " ↓") : ""}
+                    </button>
+                  ) : (
+                    header
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {page.items.map((row) => (
+            <tr key={rowKey(row)}>
+              {columns.map((column) => (
+                <td key={column.key}>{column.render(row)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {filtered.length === 0 && <p className="data-table-empty">{emptyMessage}</p>}
+      {page.pageCount > 1 && (
+        <nav className="pager" aria-label={`${label} pages`}>
+          <button
+            type="button"
+            className="copy-button"
+            disabled={page.page <= 1}
+            onClick={() => onParamsChange(writeLedgerQuery(params, { ...query, page: page.page - 1 }, queryPrefix))}
+          >
+            ← prev
+          </button>
+          <span>
+            page {page.page} / {page.pageCount} · {filtered.length.toLocaleString()} of {rows.length.toLocaleString()}{" "}
+            entries
+          </span>
+          <button
+            type="button"
+            className="copy-button"
+            disabled={page.page >= page.pageCount}
+            onClick={() => onParamsChange(writeLedgerQuery(params, { ...query, page: page.page + 1 }, queryPrefix))}
+          >
+            next →
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+};
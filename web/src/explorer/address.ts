@@ -0,0 +1,68 @@
+import { genesisAllocations } from "../chain";
+import type { LedgerEntry } from "../chain";
+
+export const ADDRESS_PAGE_SIZE = 10;
+export const TOP_COUNTERPARTY_LIMIT = 5;
+
+export type BalancePoint = {
+  timestamp: string | null;
+  balance: number;
+};
+
+export type Counterparty = {
+  address: string;
+  inflow: number;
+  outflow: number;
+  count: number;
+};
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+export const involvesAddress = (entry: LedgerEntry, address: string): boolean =>
+  sameAddress(entry.from, address) || sameAddress(entry.to, address);
+
+// Starts at the genesis allocation and walks the address's entries oldest-first.
+export const balanceHistory = (
+  ledger: LedgerEntry[],
+  address: string,
+  genesis: Record<string, number> = genesisAllocations
+): BalancePoint[] => {
+  let balance = Object.entries(genesis)
+    .filter(([holder]) => sameAddress(holder, address))
+    .reduce((sum, [, amount]) => sum + amount, 0);
+  const points: BalancePoint[] = [{ timestamp: null, balance }];
+
+  ledger
+    .filter((entry) => involvesAddress(entry, address))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach((entry) => {
+      if (sameAddress(entry.to, address)) balance += entry.amount;
+      if (sameAddress(entry.from, address)) balance -= entry.amount;
+      points.push({ timestamp: entry.timestamp, balance });
+    });
+
+  return points;
+};
+
+export const topCounterparties = (
+  ledger: LedgerEntry[],
+  address: string,
+  limit = TOP_COUNTERPARTY_LIMIT
+): Counterparty[] => {
+  const totals = new Map<string, Counterparty>();
+  ledger.forEach((entry) => {
+    const outgoing = sameAddress(entry.from, address);
+    const incoming = sameAddress(entry.to, address);
+    if (outgoing === incoming) return;
+    const other = outgoing ? entry.to : entry.from;
+    const key = other.toLowerCase();
+    const current = totals.get(key) ?? { address: other, inflow: 0, outflow: 0, count: 0 };
+    if (outgoing) current.outflow += entry.amount;
+    else current.inflow += entry.amount;
+    current.count += 1;
+    totals.set(key, current);
+  });
+  return [...totals.values()]
+    .sort((a, b) => b.inflow + b.outflow - (a.inflow + a.outflow))
+    .slice(0, limit);
+};
@@ -0,0 +1,91 @@
+import { ledgerOrigins, ledgerStatuses } from "../chain";
+import type { LedgerEntry } from "../chain";
+import { parsePage } from "../lib/paging";
+
+export type LedgerSortKey = "time" | "amount";
+export type SortDirection = "asc" | "desc";
+
+export type LedgerQuery = {
+  sort: LedgerSortKey;
+  direction: SortDirection;
+  origin: LedgerEntry["origin"] | "all";
+  status: LedgerEntry["status"] | "all";
+  min: number | null;
+  max: number | null;
+  memo: string;
+  page: number;
+};
+
+export const DEFAULT_LEDGER_QUERY: LedgerQuery = {
+  sort: "time",
+  direction: "desc",
+  origin: "all",
+  status: "all",
+  min: null,
+  max: null,
+  memo: "",
+  page: 1
+};
+
+const parseAmount = (value: string | null): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const pick = <T extends string>(value: string | null, options: readonly T[], fallback: T): T =>
+  options.find((option) => option === value) ?? fallback;
+
+export const readLedgerQuery = (params: URLSearchParams, prefix = ""): LedgerQuery => ({
+  sort: pick(params.get(`${prefix}sort`), ["time", "amount"], DEFAULT_LEDGER_QUERY.sort),
+  direction: pick(params.get(`${prefix}dir`), ["asc", "desc"], DEFAULT_LEDGER_QUERY.direction),
+  origin: pick(params.get(`${prefix}origin`), ["all", ...ledgerOrigins], "all"),
+  status: pick(params.get(`${prefix}status`), ["all", ...ledgerStatuses], "all"),
+  min: parseAmount(params.get(`${prefix}min`)),
+  max: parseAmount(params.get(`${prefix}max`)),
+  memo: params.get(`${prefix}memo`) ?? "",
+  page: parsePage(params.get(`${prefix}page`))
+});
+
+// Returns a copy of `params` with this table's keys rewritten; defaults are dropped to keep URLs short.
+export const writeLedgerQuery = (params: URLSearchParams, query: LedgerQuery, prefix = ""): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const values: Record<string, string | null> = {
+    sort: query.sort === DEFAULT_LEDGER_QUERY.sort ? null : query.sort,
+    dir: query.direction === DEFAULT_LEDGER_QUERY.direction ? null : query.direction,
+    origin: query.origin === "all" ? null : query.origin,
+    status: query.status === "all" ? null : query.status,
+    min: query.min === null ? null : String(query.min),
+    max: query.max === null ? null : String(query.max),
+    memo: query.memo || null,
+    page: query.page > 1 ? String(query.page) : null
+  };
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === null) next.delete(`${prefix}${key}`);
+    else next.set(`${prefix}${key}`, value);
+  });
+  return next;
+};
+
+export const applyLedgerQuery = <T,>(rows: T[], entryOf: (row: T) => LedgerEntry, query: LedgerQuery): T[] => {
+  const memo = query.memo.trim().toLowerCase();
+  const sign = query.direction === "asc" ? 1 : -1;
+  return rows
+    .filter((row) => {
+      const entry = entryOf(row);
+      if (query.origin !== "all" && entry.origin !== query.origin) return false;
+      if (query.status !== "all" && entry.status !== query.status) return false;
+      if (query.min !== null && entry.amount < query.min) return false;
+      if (query.max !== null && entry.amount > query.max) return false;
+      return !memo || (entry.memo ?? "").toLowerCase().includes(memo);
+    })
+    .sort((a, b) => {
+      const left = entryOf(a);
+      const right = entryOf(b);
+      const delta =
+        query.sort === "amount"
+          ? left.amount - right.amount
+          : new Date(left.timestamp).getTime() - new Date(right.timestamp).getTime();
+      return delta * sign;
+    });
+};
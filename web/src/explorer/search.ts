@@ -0,0 +1,95 @@
+import type { BlockEntry, LedgerEntry } from "../chain";
+
+export type SearchQueryKind = "hash" | "height" | "address" | "partial-hash" | "text" | "empty";
+
+export type SearchResult =
+  | { kind: "tx"; hash: string; label: string }
+  | { kind: "block"; height: number; label: string }
+  | { kind: "address"; address: string; label: string };
+
+export type SearchIndex = {
+  ledger: LedgerEntry[];
+  blocks: BlockEntry[];
+  addresses: { label: string; address: string }[];
+};
+
+const HASH_PATTERN = /^0x[0-9a-f]{64}$/i;
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+const PARTIAL_HEX_PATTERN = /^0x[0-9a-f]*$/i;
+const HEIGHT_PATTERN = /^#?\d+$/;
+
+export const classifyQuery = (raw: string): SearchQueryKind => {
+  const query = raw.trim();
+  if (!query) return "empty";
+  if (HASH_PATTERN.test(query)) return "hash";
+  if (ADDRESS_PATTERN.test(query)) return "address";
+  if (HEIGHT_PATTERN.test(query)) return "height";
+  if (PARTIAL_HEX_PATTERN.test(query)) return "partial-hash";
+  return "text";
+};
+
+const resultKey = (result: SearchResult): string => {
+  if (result.kind === "block") return `block:${result.height}`;
+  return `${result.kind}:${(result.kind === "tx" ? result.hash : result.address).toLowerCase()}`;
+};
+
+const short = (value: string): string => (value.length > 18 ? `${value.slice(0, 10)}…${value.slice(-6)}` : value);
+
+// Exact matches come first, followed by prefix matches on hashes and heights and substring matches on labels.
+export const searchExplorer = (raw: string, index: SearchIndex, limit = 6): SearchResult[] => {
+  const query = raw.trim();
+  const kind = classifyQuery(query);
+  if (kind === "empty") return [];
+
+  const needle = query.toLowerCase();
+  const results: SearchResult[] = [];
+  const seen = new Set<string>();
+  const push = (result: SearchResult) => {
+    const key = resultKey(result);
+    if (seen.has(key)) return;
+    seen.add(key);
+    results.push(result);
+  };
+
+  if (kind === "height") {
+    const digits = query.replace(/^#/, "");
+    const height = Number(digits);
+    push({ kind: "block", height, label: `block #${height.toLocaleString()}` });
+    index.blocks
+      .filter((block) => String(block.height).startsWith(digits))
+      .forEach((block) => push({ kind: "block", height: block.height, label: `block #${block.height.toLocaleString()}` }));
+  }
+
+  if (kind === "address") {
+    const registered = index.addresses.find((entry) => entry.address.toLowerCase() === needle);
+    push({ kind: "address", address: registered?.address ?? query, label: registered?.label ?? short(query) });
+  }
+
+  if (kind === "hash" || kind === "partial-hash" || kind === "address") {
+    index.ledger
+      .filter((entry) => entry.hash.toLowerCase().startsWith(needle))
+      .forEach((entry) => push({ kind: "tx", hash: entry.hash, label: `tx ${short(entry.hash)}` }));
+    index.blocks
+      .filter((block) => block.hash.toLowerCase().startsWith(needle))
+      .forEach((block) => push({ kind: "block", height: block.height, label: `block #${block.height.toLocaleString()}` }));
+    index.addresses
+      .filter((entry) => entry.address.toLowerCase().startsWith(needle))
+      .forEach((entry) => push({ kind: "address", address: entry.address, label: entry.label }));
+  }
+
+  if (kind === "hash") {
+    push({ kind: "tx", hash: query, label: `tx ${short(query)}` });
+  }
+
+  if (kind === "text") {
+    index.addresses
+      .filter((entry) => entry.label.toLowerCase().includes(needle))
+      .sort(
+        (a, b) =>
+          Number(!a.label.toLowerCase().startsWith(needle)) - Number(!b.label.toLowerCase().startsWith(needle))
+      )
+      .forEach((entry) => push({ kind: "address", address: entry.address, label: entry.label }));
+  }
+
+  return results.slice(0, limit);
+};
@@ -0,0 +1,21 @@
+export const notificationsSupported = (): boolean => typeof window !== "undefined" && "Notification" in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return "denied";
+  }
+};
+
+// Silently skipped when unsupported or not granted; in-app toasts still carry the alert.
+export const showNotification = (title: string, body: string): void => {
+  if (!notificationsSupported() || Notification.permission !== "granted") return;
+  try {
+    new Notification(title, { body });
+  } catch {
+    /* some mobile browsers only allow notifications from a service worker */
+  }
+};
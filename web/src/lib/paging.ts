@@ -0,0 +1,16 @@
+export type Page<T> = {
+  items: T[];
+  page: number;
+  pageCount: number;
+};
+
+export const parsePage = (value: string | null): number => {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+};
+
+export const paginate = <T,>(items: T[], page: number, size: number): Page<T> => {
+  const pageCount = Math.max(1, Math.ceil(items.length / size));
+  const current = Math.min(Math.max(page, 1), pageCount);
+  return { items: items.slice((current - 1) * size, current * size), page: current, pageCount };
+};
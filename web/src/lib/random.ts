@@ -0,0 +1,13 @@
+export const randomFrom = <T,>(collection: readonly T[]): T =>
+  collection[Math.floor(Math.random() * collection.length)];
+
+export const randomBetween = (min: number, max: number): number =>
+  Math.floor(Math.random() * (max - min + 1)) + min;
+
+export const randomHex = (length: number): string => {
+  let output = "";
+  for (let index = 0; index < length; index += 1) {
+    output += Math.floor(Math.random() * 16).toString(16);
+  }
+  return output;
+};
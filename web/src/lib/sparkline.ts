@@ -0,0 +1,14 @@
+// Maps a series onto an SVG polyline `points` string inside a width × height box.
+export const sparklinePoints = (values: number[], width: number, height: number, padding = 4): string => {
+  if (values.length === 0) return "";
+  const min = Math.min(...values);
+  const range = Math.max(Math.max(...values) - min, 0.0001);
+  const step = (width - padding * 2) / Math.max(values.length - 1, 1);
+  return values
+    .map((value, index) => {
+      const x = padding + index * step;
+      const y = height - padding - ((value - min) / range) * (height - padding * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+};
@@ -0,0 +1,117 @@
+import type { CandleEntry } from "../chain";
+
+export type AlertKind = "price-above" | "price-below" | "change" | "imbalance" | "volume-spike";
+
+export type AlertRule = {
+  id: string;
+  kind: AlertKind;
+  threshold: number;
+  enabled: boolean;
+  notify: boolean;
+  createdAt: string;
+  lastTriggeredAt: string | null;
+};
+
+// Everything a rule can look at, derived from the 5m candle series.
+export type AlertContext = {
+  candleId: string;
+  price: number;
+  changePercent: number;
+  buyShare: number;
+  fills: number;
+  volume: number;
+  averageVolume: number;
+};
+
+export type AlertTrigger = {
+  rule: AlertRule;
+  message: string;
+};
+
+export const alertKinds: { id: AlertKind; label: string; unit: string }[] = [
+  { id: "price-above", label: "price rises to", unit: "$xLNR" },
+  { id: "price-below", label: "price falls to", unit: "$xLNR" },
+  { id: "change", label: "5m change beyond", unit: "%" },
+  { id: "imbalance", label: "one side of fills reaches", unit: "%" },
+  { id: "volume-spike", label: "5m volume exceeds its average by", unit: "×" }
+];
+
+export const VOLUME_AVERAGE_WINDOW = 12;
+export const IMBALANCE_MIN_FILLS = 6;
+
+export const alertContext = (candles: CandleEntry[]): AlertContext | null => {
+  const latest = candles[candles.length - 1];
+  if (!latest) return null;
+  const previous = candles[candles.length - 2] ?? latest;
+  const window = candles.slice(-VOLUME_AVERAGE_WINDOW - 1, -1);
+  const fills = latest.buyers + latest.sellers;
+  return {
+    candleId: latest.id,
+    price: latest.close,
+    changePercent: previous.close ? ((latest.close - previous.close) / previous.close) * 100 : 0,
+    buyShare: fills > 0 ? latest.buyers / fills : 0.5,
+    fills,
+    volume: latest.volume,
+    averageVolume: window.length > 0 ? window.reduce((acc, candle) => acc + candle.volume, 0) / window.length : 0
+  };
+};
+
+const matches = (rule: AlertRule, context: AlertContext): boolean => {
+  switch (rule.kind) {
+    case "price-above":
+      return context.price >= rule.threshold;
+    case "price-below":
+      return context.price <= rule.threshold;
+    case "change":
+      return Math.abs(context.changePercent) >= rule.threshold;
+    case "imbalance":
+      return (
+        context.fills >= IMBALANCE_MIN_FILLS && Math.max(context.buyShare, 1 - context.buyShare) * 100 >= rule.threshold
+      );
+    case "volume-spike":
+      return context.averageVolume > 0 && context.volume >= context.averageVolume * rule.threshold;
+  }
+};
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  const kind = alertKinds.find((entry) => entry.id === rule.kind);
+  const unit = kind?.unit ?? "";
+  return `${kind?.label ?? rule.kind} ${rule.threshold}${unit === "$xLNR" ? ` ${unit}` : unit}`;
+};
+
+const triggerMessage = (rule: AlertRule, context: AlertContext): string => {
+  switch (rule.kind) {
+    case "price-above":
+    case "price-below":
+      return `price ${context.price.toFixed(4)} crossed ${rule.threshold}`;
+    case "change":
+      return `5m change ${context.changePercent >= 0 ? "+" : ""}${context.changePercent.toFixed(2)}% passed ±${rule.threshold}%`;
+    case "imbalance": {
+      const side = context.buyShare >= 0.5 ? "buy" : "sell";
+      const share = Math.max(context.buyShare, 1 - context.buyShare) * 100;
+      return `${share.toFixed(0)}% of ${context.fills} fills were ${side}s`;
+    }
+    case "volume-spike":
+      return `5m volume ${Math.round(context.volume)} is ${(context.volume / context.averageVolume).toFixed(1)}× the average`;
+  }
+};
+
+// Rules fire on the transition into their condition, so a level that stays crossed alerts once until it resets.
+// Rules seen for the first time, or just re-enabled, only record their state instead of firing straight away.
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  context: AlertContext,
+  previous: Map<string, boolean>
+): { state: Map<string, boolean>; triggered: AlertTrigger[] } => {
+  const state = new Map<string, boolean>();
+  const triggered: AlertTrigger[] = [];
+  rules.forEach((rule) => {
+    if (!rule.enabled) return;
+    const active = matches(rule, context);
+    state.set(rule.id, active);
+    if (active && previous.get(rule.id) === false) {
+      triggered.push({ rule, message: triggerMessage(rule, context) });
+    }
+  });
+  return { state, triggered };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { TickEntry } from "../chain";
+import { aggregateCandles, bucketStart, updateCandles } from "./candles";
+
+const BASE = Date.parse("2026-10-19T00:00:00.000Z");
+
+const tick = (index: number, offsetMs: number, price: number, side: TickEntry["side"] = "buy"): TickEntry => ({
+  id: `tick-${index}`,
+  price,
+  volume: 1,
+  side,
+  holders: index,
+  timestamp: new Date(BASE + offsetMs).toISOString()
+});
+
+// One tick every 40 s, so 1m buckets hold one or two ticks and 5m buckets about seven.
+const stream = (from: number, to: number): TickEntry[] =>
+  Array.from({ length: to - from }, (_, offset) => {
+    const index = from + offset;
+    return tick(index, index * 40_000, 1 + (index % 7) / 10, index % 3 === 0 ? "sell" : "buy");
+  });
+
+describe("bucketStart", () => {
+  it("aligns buckets to UTC wall-clock boundaries", () => {
+    expect(bucketStart(Date.parse("2026-10-19T10:47:31.000Z"), "15m")).toBe(Date.parse("2026-10-19T10:45:00.000Z"));
+    expect(bucketStart(Date.parse("2026-10-19T10:47:31.000Z"), "1d")).toBe(Date.parse("2026-10-19T00:00:00.000Z"));
+  });
+});
+
+describe("aggregateCandles", () => {
+  it("builds OHLCV candles from ticks in time order and counts each side's fills", () => {
+    const candles = aggregateCandles(
+      [tick(2, 30_000, 1.5, "sell"), tick(1, 0, 1.2), tick(3, 45_000, 0.9, "sell"), tick(4, 61_000, 1.1)],
+      "1m"
+    );
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({ open: 1.2, high: 1.5, low: 0.9, close: 0.9, volume: 3, buyers: 1, sellers: 2 });
+    expect(candles[1]).toMatchObject({ open: 1.1, close: 1.1, timestamp: new Date(BASE + 60_000).toISOString() });
+  });
+});
+
+describe("updateCandles", () => {
+  it("matches a full aggregation as the buffer slides forward", () => {
+    let ticks = stream(0, 50);
+    let series = updateCandles(null, ticks, "5m");
+    for (let step = 0; step < 30; step += 1) {
+      const next = [...ticks.slice(step % 4), ...stream(50 + step * 2, 52 + step * 2)];
+      const updated = updateCandles(series, next, "5m");
+      expect(updated.candles).toEqual(aggregateCandles(next, "5m"));
+      series = updated;
+      ticks = next;
+    }
+  });
+
+  it("does not mutate the candles of the previous series", () => {
+    const ticks = stream(0, 10);
+    const series = updateCandles(null, ticks, "5m");
+    const before = structuredClone(series.candles);
+    updateCandles(series, [...ticks.slice(1), ...stream(10, 12)], "5m");
+    expect(series.candles).toEqual(before);
+  });
+
+  it("re-aggregates when the buffer was replaced rather than slid", () => {
+    const series = updateCandles(null, stream(0, 10), "1m");
+    const replaced = [...stream(20, 30)].reverse();
+    expect(updateCandles(series, replaced, "1m").candles).toEqual(aggregateCandles(replaced, "1m"));
+    expect(updateCandles(series, stream(0, 10), "5m").candles).toEqual(aggregateCandles(stream(0, 10), "5m"));
+  });
+
+  it("returns the previous series when the buffer is unchanged", () => {
+    const ticks = stream(0, 10);
+    const series = updateCandles(null, ticks, "1m");
+    expect(updateCandles(series, ticks, "1m")).toBe(series);
+  });
+});
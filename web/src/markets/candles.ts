@@ -0,0 +1,169 @@
+import type { CandleEntry, TickEntry } from "../chain";
+
+export type Timeframe = "1m" | "5m" | "15m" | "1h" | "1d";
+
+export const TIMEFRAMES: { id: Timeframe; label: string; ms: number }[] = [
+  { id: "1m", label: "1 minute", ms: 60_000 },
+  { id: "5m", label: "5 minute", ms: 5 * 60_000 },
+  { id: "15m", label: "15 minute", ms: 15 * 60_000 },
+  { id: "1h", label: "1 hour", ms: 60 * 60_000 },
+  { id: "1d", label: "1 day", ms: 24 * 60 * 60_000 }
+];
+
+export const DEFAULT_TIMEFRAME: Timeframe = "1m";
+
+export const timeframeOf = (value: string | null): Timeframe =>
+  TIMEFRAMES.find((timeframe) => timeframe.id === value)?.id ?? DEFAULT_TIMEFRAME;
+
+const timeframeMs = (timeframe: Timeframe): number =>
+  TIMEFRAMES.find((entry) => entry.id === timeframe)?.ms ?? TIMEFRAMES[0].ms;
+
+// Buckets are aligned to UTC wall-clock boundaries, so a 1h candle always opens on the hour.
+export const bucketStart = (timestamp: number, timeframe: Timeframe): number => {
+  const size = timeframeMs(timeframe);
+  return Math.floor(timestamp / size) * size;
+};
+
+const openCandle = (tick: TickEntry, timeframe: Timeframe, start: number): CandleEntry => ({
+  id: `candle-${timeframe}-${start}`,
+  open: tick.price,
+  high: tick.price,
+  low: tick.price,
+  close: tick.price,
+  volume: 0,
+  buyers: 0,
+  sellers: 0,
+  holders: tick.holders,
+  timestamp: new Date(start).toISOString()
+});
+
+const applyTick = (candle: CandleEntry, tick: TickEntry) => {
+  candle.high = Math.max(candle.high, tick.price);
+  candle.low = Math.min(candle.low, tick.price);
+  candle.close = tick.price;
+  candle.volume = Number((candle.volume + tick.volume).toFixed(2));
+  if (tick.volume > 0 && tick.side === "buy") candle.buyers += 1;
+  if (tick.volume > 0 && tick.side === "sell") candle.sellers += 1;
+  candle.holders = tick.holders;
+};
+
+const isChronological = (ticks: TickEntry[]): boolean =>
+  ticks.every((tick, index) => index === 0 || Date.parse(tick.timestamp) >= Date.parse(ticks[index - 1].timestamp));
+
+export const aggregateCandles = (ticks: TickEntry[], timeframe: Timeframe): CandleEntry[] => {
+  const candles: CandleEntry[] = [];
+  let current: CandleEntry | null = null;
+  let currentStart = Number.NaN;
+
+  [...ticks]
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+    .forEach((tick) => {
+      const start = bucketStart(Date.parse(tick.timestamp), timeframe);
+      if (current === null || start !== currentStart) {
+        current = openCandle(tick, timeframe, start);
+        currentStart = start;
+        candles.push(current);
+      }
+      applyTick(current, tick);
+    });
+
+  return candles;
+};
+
+// Candles aggregated from one tick buffer, kept so the next buffer can be folded in rather than re-aggregated.
+export type CandleSeries = {
+  timeframe: Timeframe;
+  ticks: TickEntry[];
+  candles: CandleEntry[];
+  chronological: boolean;
+};
+
+// When the buffer only slid forward (ticks trimmed from the front, newer ticks appended at the back), rebuilds the
+// first bucket from the ticks left in it and folds the new ticks into the tail. Anything else is re-aggregated.
+export const updateCandles = (
+  previous: CandleSeries | null,
+  ticks: TickEntry[],
+  timeframe: Timeframe
+): CandleSeries => {
+  const full = (): CandleSeries => ({
+    timeframe,
+    ticks,
+    candles: aggregateCandles(ticks, timeframe),
+    chronological: isChronological(ticks)
+  });
+  if (!previous || previous.timeframe !== timeframe || !previous.chronological) return full();
+  if (previous.ticks === ticks) return previous;
+  if (ticks.length === 0 || previous.ticks.length === 0) return full();
+
+  const dropped = previous.ticks.indexOf(ticks[0]);
+  const kept = previous.ticks.length - dropped;
+  if (dropped < 0 || kept > ticks.length) return full();
+  for (let index = 1; index < kept; index += 1) {
+    if (previous.ticks[dropped + index] !== ticks[index]) return full();
+  }
+  const appended = ticks.slice(kept);
+  if (!isChronological([ticks[kept - 1], ...appended])) return full();
+
+  let candles = previous.candles;
+  if (dropped > 0) {
+    const firstStart = bucketStart(Date.parse(ticks[0].timestamp), timeframe);
+    let firstEnd = 0;
+    while (firstEnd < kept && bucketStart(Date.parse(ticks[firstEnd].timestamp), timeframe) === firstStart) {
+      firstEnd += 1;
+    }
+    const rest = candles.filter((candle) => Date.parse(candle.timestamp) > firstStart);
+    candles = [...aggregateCandles(ticks.slice(0, firstEnd), timeframe), ...rest];
+  }
+
+  if (appended.length > 0) {
+    candles = [...candles];
+    let last = candles[candles.length - 1];
+    let lastStart = Date.parse(last.timestamp);
+    let copied = false;
+    appended.forEach((tick) => {
+      const start = bucketStart(Date.parse(tick.timestamp), timeframe);
+      if (start !== lastStart) {
+        last = openCandle(tick, timeframe, start);
+        lastStart = start;
+        candles.push(last);
+      } else if (!copied) {
+        last = { ...last };
+        candles[candles.length - 1] = last;
+      }
+      copied = true;
+      applyTick(last, tick);
+    });
+  }
+
+  return { timeframe, ticks, candles, chronological: true };
+};
+
+export type UnsidedTick = Omit<TickEntry, "side"> & { side?: TickEntry["side"] };
+
+// Tick test for prints without an aggressor: an uptick is a buy, a downtick a sell, and an unchanged print
+// inherits the previous side.
+export const classifyTickSides = (ticks: UnsidedTick[]): TickEntry[] => {
+  let side: TickEntry["side"] = "buy";
+  return ticks.map((tick, index) => {
+    const previous = ticks[index - 1];
+    if (tick.side) side = tick.side;
+    else if (previous && tick.price !== previous.price) side = tick.price > previous.price ? "buy" : "sell";
+    return { ...tick, side };
+  });
+};
+
+// Expands imported candles into open/high/low/close prints so they can be re-aggregated at any timeframe.
+export const ticksFromCandles = (candles: CandleEntry[]): TickEntry[] =>
+  classifyTickSides(
+    candles.flatMap((candle) => {
+      const time = Date.parse(candle.timestamp);
+      const prices = [candle.open, candle.high, candle.low, candle.close];
+      return prices.map((price, index) => ({
+        id: `${candle.id}-${index}`,
+        price,
+        volume: index === prices.length - 1 ? candle.volume : 0,
+        holders: candle.holders,
+        timestamp: new Date(time + index).toISOString()
+      }));
+    })
+  );
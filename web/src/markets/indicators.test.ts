@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { CandleEntry } from "../chain";
+import { bollinger, ema, macd, rsi, sma, vwap } from "./indicators";
+
+const candle = (timestamp: string, high: number, low: number, close: number, volume: number): CandleEntry => ({
+  id: `candle-${timestamp}`,
+  open: close,
+  high,
+  low,
+  close,
+  volume,
+  buyers: 0,
+  sellers: 0,
+  holders: 0,
+  timestamp
+});
+
+// Wilder's worked example, as reproduced in most RSI references.
+const wilderCloses = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28
+];
+
+describe("sma", () => {
+  it("leaves the warm-up window null and averages each trailing window", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("is all null when the series is shorter than the period", () => {
+    expect(sma([1, 2], 3)).toEqual([null, null]);
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the SMA of the first period and smooths with 2 / (period + 1)", () => {
+    expect(ema([2, 4, 6, 8, 12], 3)).toEqual([null, null, 4, 6, 9]);
+  });
+});
+
+describe("bollinger", () => {
+  it("bands the middle SMA by a multiple of the population standard deviation", () => {
+    const bands = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(bands.slice(0, 7)).toEqual(Array(7).fill(null));
+    expect(bands[7]).toEqual({ middle: 5, upper: 9, lower: 1 });
+  });
+});
+
+describe("vwap", () => {
+  it("weights the typical price by volume and re-anchors at each UTC day", () => {
+    const series = vwap([
+      candle("2026-10-18T23:00:00.000Z", 12, 6, 12, 0),
+      candle("2026-10-18T23:30:00.000Z", 12, 6, 12, 1),
+      candle("2026-10-18T23:45:00.000Z", 24, 18, 18, 3),
+      candle("2026-10-19T00:00:00.000Z", 33, 27, 30, 2)
+    ]);
+    expect(series).toEqual([null, 10, 17.5, 30]);
+  });
+});
+
+describe("rsi", () => {
+  it("stays null until `period` changes have been seen", () => {
+    const series = rsi(wilderCloses, 14);
+    expect(series.slice(0, 14)).toEqual(Array(14).fill(null));
+    expect(series[14]).not.toBeNull();
+  });
+
+  it("matches Wilder's reference value", () => {
+    expect(rsi(wilderCloses, 14)[14]).toBeCloseTo(70.46, 2);
+  });
+
+  it("reads 50 on a flat series and 100 when every change is a gain", () => {
+    expect(rsi(Array(20).fill(10), 14).slice(14)).toEqual(Array(6).fill(50));
+    expect(rsi(Array.from({ length: 20 }, (_, index) => index + 1), 14)[19]).toBe(100);
+  });
+});
+
+describe("macd", () => {
+  const values = [3, 5, 4, 8, 9, 7, 10, 12, 11, 15, 14, 16];
+  const series = macd(values, 3, 5, 3);
+
+  it("starts the MACD line once the slow EMA has warmed up", () => {
+    expect(series.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(series[4]).not.toBeNull();
+  });
+
+  it("lines the signal up with the MACD line it smooths", () => {
+    const fast = ema(values, 3);
+    const slow = ema(values, 5);
+    const line = values.map((_, index) => (index < 4 ? null : (fast[index] as number) - (slow[index] as number)));
+
+    series.slice(4).forEach((point, offset) => {
+      expect(point?.macd).toBeCloseTo(line[offset + 4] as number, 10);
+    });
+    // The signal is an EMA over the MACD line alone, so it needs `signalPeriod` MACD values before its first point.
+    expect(series[4]?.signal).toBeNull();
+    expect(series[5]?.signal).toBeNull();
+    expect(series[6]?.signal).toBeCloseTo(((line[4] as number) + (line[5] as number) + (line[6] as number)) / 3, 10);
+    series.slice(6).forEach((point) => {
+      expect(point?.histogram).toBeCloseTo((point?.macd ?? 0) - (point?.signal ?? 0), 10);
+    });
+  });
+});
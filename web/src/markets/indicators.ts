@@ -0,0 +1,99 @@
+import type { CandleEntry } from "../chain";
+
+// Every series is index-aligned with its input; `null` marks the warm-up window before a value exists.
+export type Series = (number | null)[];
+
+export type BollingerPoint = { middle: number; upper: number; lower: number } | null;
+
+export type MacdPoint = { macd: number; signal: number | null; histogram: number | null } | null;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export const sma = (values: number[], period: number): Series => {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+};
+
+// Seeded with the SMA of the first `period` values, then smoothed with k = 2 / (period + 1).
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, index) => {
+    if (index < period - 1) return null;
+    previous =
+      previous === null
+        ? values.slice(0, period).reduce((acc, entry) => acc + entry, 0) / period
+        : value * k + previous * (1 - k);
+    return previous;
+  });
+};
+
+export const bollinger = (values: number[], period = 20, multiplier = 2): BollingerPoint[] =>
+  sma(values, period).map((middle, index) => {
+    if (middle === null) return null;
+    const window = values.slice(index - period + 1, index + 1);
+    const variance = window.reduce((acc, value) => acc + (value - middle) ** 2, 0) / period;
+    const band = Math.sqrt(variance) * multiplier;
+    return { middle, upper: middle + band, lower: middle - band };
+  });
+
+// Session VWAP: typical price weighted by volume, re-anchored at each UTC day.
+export const vwap = (candles: CandleEntry[]): Series => {
+  let session = Number.NaN;
+  let weighted = 0;
+  let volume = 0;
+  return candles.map((candle) => {
+    const day = Math.floor(Date.parse(candle.timestamp) / DAY_MS);
+    if (day !== session) {
+      session = day;
+      weighted = 0;
+      volume = 0;
+    }
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume > 0 ? weighted / volume : null;
+  });
+};
+
+// Wilder's RSI: the first average is a simple mean of `period` changes, later ones are smoothed by 1 / period.
+export const rsi = (values: number[], period = 14): Series => {
+  let gain = 0;
+  let loss = 0;
+  return values.map((value, index) => {
+    if (index === 0) return null;
+    const change = value - values[index - 1];
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    if (index <= period) {
+      gain += up / period;
+      loss += down / period;
+      if (index < period) return null;
+    } else {
+      gain = (gain * (period - 1) + up) / period;
+      loss = (loss * (period - 1) + down) / period;
+    }
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signalPeriod = 9): MacdPoint[] => {
+  const fastLine = ema(values, fast);
+  const slowLine = ema(values, slow);
+  const line = values.map((_, index) => {
+    const left = fastLine[index];
+    const right = slowLine[index];
+    return left === null || right === null ? null : left - right;
+  });
+  const start = line.findIndex((value) => value !== null);
+  const signal = start < 0 ? [] : ema(line.slice(start) as number[], signalPeriod);
+  return line.map((value, index) => {
+    if (value === null) return null;
+    const signalValue = signal[index - start] ?? null;
+    return { macd: value, signal: signalValue, histogram: signalValue === null ? null : value - signalValue };
+  });
+};
@@ -0,0 +1,51 @@
+import type { CandleEntry, OrderBook, OrderLevel } from "../chain";
+
+export type DepthPoint = OrderLevel & { total: number };
+
+export type BookSpread = {
+  bid: number;
+  ask: number;
+  mid: number;
+  spread: number;
+  spreadBps: number;
+};
+
+export type OrderFlowSentiment = {
+  label: "bullish" | "neutral" | "bearish";
+  imbalance: number;
+  buyShare: number;
+};
+
+export const spreadOf = (book: OrderBook): BookSpread | null => {
+  const bid = book.bids[0]?.price;
+  const ask = book.asks[0]?.price;
+  if (bid === undefined || ask === undefined) return null;
+  const mid = (bid + ask) / 2;
+  return { bid, ask, mid, spread: ask - bid, spreadBps: mid ? ((ask - bid) / mid) * 10_000 : 0 };
+};
+
+// Running size from the touch outwards; levels must already be sorted best first.
+export const cumulativeDepth = (levels: OrderLevel[]): DepthPoint[] => {
+  let total = 0;
+  return levels.map((level) => {
+    total += level.size;
+    return { ...level, total };
+  });
+};
+
+// Resting size imbalance over the top `levels`, from -1 (all offers) to 1 (all bids).
+export const bookImbalance = (book: OrderBook, levels = 5): number => {
+  const sum = (side: OrderLevel[]) => side.slice(0, levels).reduce((acc, level) => acc + level.size, 0);
+  const bids = sum(book.bids);
+  const asks = sum(book.asks);
+  return bids + asks > 0 ? (bids - asks) / (bids + asks) : 0;
+};
+
+// Blends resting book imbalance with the aggressor split of the latest candle.
+export const orderFlowSentiment = (book: OrderBook | null, candle: CandleEntry): OrderFlowSentiment => {
+  const imbalance = book ? bookImbalance(book) : 0;
+  const fills = candle.buyers + candle.sellers;
+  const buyShare = fills > 0 ? candle.buyers / fills : 0.5;
+  const score = (imbalance + (buyShare - 0.5) * 2) / 2;
+  return { label: score > 0.15 ? "bullish" : score < -0.15 ? "bearish" : "neutral", imbalance, buyShare };
+};
@@ -0,0 +1,169 @@
+import { genesisAllocations } from "../chain";
+import type { LedgerEntry, TickEntry } from "../chain";
+
+export type PortfolioSource = "genesis" | "faucet" | "transfer" | "desk";
+
+export type PortfolioInflow = {
+  source: PortfolioSource;
+  amount: number;
+  value: number;
+  count: number;
+};
+
+export type PortfolioPoint = {
+  timestamp: string;
+  holdings: number;
+  price: number;
+  equity: number;
+  costBasis: number;
+};
+
+export type Portfolio = {
+  holdings: number;
+  price: number;
+  equity: number;
+  costBasis: number;
+  averageCost: number;
+  realized: number;
+  unrealized: number;
+  fees: number;
+  inflows: PortfolioInflow[];
+  timeline: PortfolioPoint[];
+};
+
+export const portfolioSources: { id: PortfolioSource; label: string }[] = [
+  { id: "genesis", label: "genesis" },
+  { id: "faucet", label: "faucet" },
+  { id: "transfer", label: "transfers in" },
+  { id: "desk", label: "desk buys" }
+];
+
+export const EQUITY_SAMPLES = 120;
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// Last traded price at or before `time`; anything older than the tick buffer takes the earliest known print.
+export const priceAt = (ticks: TickEntry[], time: number, fallback: number): number => {
+  if (ticks.length === 0) return fallback;
+  let low = 0;
+  let high = ticks.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (Date.parse(ticks[middle].timestamp) <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return ticks[Math.max(found, 0)].price;
+};
+
+const sourceOf = (entry: LedgerEntry): PortfolioSource =>
+  entry.origin === "desk" && entry.trade ? "desk" : entry.origin === "faucet" ? "faucet" : "transfer";
+
+type Holding = { time: number; holdings: number; costBasis: number };
+
+// Average-cost book for one address. Desk buys carry their quoted cost including fees; every other inflow is
+// booked at the market price when it arrived, so P&L only reflects price moves and desk execution. Desk sells
+// realise proceeds against average cost, while transfers out just remove their share of the basis.
+export const buildPortfolio = (
+  ledger: LedgerEntry[],
+  address: string,
+  ticks: TickEntry[],
+  price: number,
+  now = new Date(),
+  genesis: Record<string, number> = genesisAllocations
+): Portfolio => {
+  const inflows = new Map<PortfolioSource, PortfolioInflow>();
+  const addInflow = (source: PortfolioSource, amount: number, value: number) => {
+    const current = inflows.get(source) ?? { source, amount: 0, value: 0, count: 0 };
+    current.amount += amount;
+    current.value += value;
+    current.count += 1;
+    inflows.set(source, current);
+  };
+
+  const entries = ledger
+    .filter((entry) => sameAddress(entry.from, address) !== sameAddress(entry.to, address))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const opening = Object.entries(genesis)
+    .filter(([holder]) => sameAddress(holder, address))
+    .reduce((sum, [, amount]) => sum + amount, 0);
+  // The chart opens with the first ledger entry, or with the oldest known print for genesis holders.
+  const start = Math.min(
+    entries.length > 0 ? Date.parse(entries[0].timestamp) : now.getTime(),
+    opening > 0 && ticks.length > 0 ? Date.parse(ticks[0].timestamp) : now.getTime()
+  );
+
+  let holdings = 0;
+  let costBasis = 0;
+  let realized = 0;
+  let fees = 0;
+  const history: Holding[] = [];
+
+  if (opening > 0) {
+    holdings = opening;
+    costBasis = opening * priceAt(ticks, start, price);
+    addInflow("genesis", opening, costBasis);
+  }
+  history.push({ time: start, holdings, costBasis });
+
+  entries.forEach((entry) => {
+    const time = Date.parse(entry.timestamp);
+    const source = sourceOf(entry);
+    if (sameAddress(entry.to, address)) {
+      const cost = source === "desk" && entry.trade ? entry.trade.quote : entry.amount * priceAt(ticks, time, price);
+      holdings += entry.amount;
+      costBasis += cost;
+      addInflow(source, entry.amount, cost);
+    } else {
+      const removed = holdings > 0 ? costBasis * Math.min(entry.amount / holdings, 1) : 0;
+      if (source === "desk" && entry.trade) realized += entry.trade.quote - removed;
+      holdings = Math.max(holdings - entry.amount, 0);
+      costBasis = holdings > 0 ? costBasis - removed : 0;
+    }
+    if (entry.trade) fees += entry.trade.fee;
+    history.push({ time, holdings, costBasis });
+  });
+
+  const end = now.getTime();
+  const step = (end - start) / EQUITY_SAMPLES;
+  const times = [
+    ...history.map((point) => point.time),
+    ...(step > 0 ? Array.from({ length: EQUITY_SAMPLES }, (_, index) => start + step * index) : [])
+  ].sort((a, b) => a - b);
+
+  let cursor = 0;
+  const timeline: PortfolioPoint[] = times.map((time) => {
+    while (cursor + 1 < history.length && history[cursor + 1].time <= time) cursor += 1;
+    const state = history[cursor];
+    const mark = priceAt(ticks, time, price);
+    return {
+      timestamp: new Date(time).toISOString(),
+      holdings: state.holdings,
+      price: mark,
+      equity: state.holdings * mark,
+      costBasis: state.costBasis
+    };
+  });
+  timeline.push({ timestamp: now.toISOString(), holdings, price, equity: holdings * price, costBasis });
+
+  const equity = holdings * price;
+  return {
+    holdings,
+    price,
+    equity,
+    costBasis,
+    averageCost: holdings > 0 ? costBasis / holdings : 0,
+    realized,
+    unrealized: equity - costBasis,
+    fees,
+    inflows: portfolioSources.flatMap(({ id }) => {
+      const inflow = inflows.get(id);
+      return inflow ? [inflow] : [];
+    }),
+    timeline
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { OrderBook } from "../chain";
+import { TradeQuoteError, quoteTrade, slippageBetween, sweepPrice, tradeShortfall } from "./ticket";
+
+const book: OrderBook = {
+  bids: [
+    { price: 0.99, size: 10 },
+    { price: 0.98, size: 10 }
+  ],
+  asks: [
+    { price: 1.01, size: 10 },
+    { price: 1.02, size: 10 }
+  ],
+  timestamp: "2026-10-19T00:00:00.000Z"
+};
+
+describe("sweepPrice", () => {
+  it("averages the levels a size sweeps and is null past the visible depth", () => {
+    expect(sweepPrice(book.asks, 20)).toBeCloseTo(1.015, 10);
+    expect(sweepPrice(book.asks, 21)).toBeNull();
+  });
+});
+
+describe("quoteTrade", () => {
+  it("adds the fee to a buy's cost and shifts the price by the sweep's impact", () => {
+    const quote = quoteTrade("buy", 20, 2, book, 30);
+    const impactBps = ((1.015 - 1.01) / 1.01) * 10_000;
+    expect(quote.impactBps).toBeCloseTo(impactBps, 10);
+    expect(quote.price).toBeCloseTo(2 * (1 + impactBps / 10_000), 10);
+    expect(quote.fee).toBeCloseTo(quote.notional * 0.003, 10);
+    expect(quote.quote).toBeCloseTo(quote.notional + quote.fee, 10);
+  });
+
+  it("takes the fee out of a sell's proceeds", () => {
+    const quote = quoteTrade("sell", 10, 2, book, 30);
+    expect(quote.impactBps).toBe(0);
+    expect(quote.quote).toBeCloseTo(20 - 0.06, 10);
+  });
+
+  it("refuses empty sizes, a missing price and sizes beyond the book", () => {
+    expect(() => quoteTrade("buy", 0, 2, book)).toThrow(TradeQuoteError);
+    expect(() => quoteTrade("buy", 1, 0, book)).toThrow("No market price yet");
+    expect(() => quoteTrade("sell", 25, 2, book)).toThrow("Size exceeds the visible book depth");
+  });
+});
+
+describe("slippageBetween", () => {
+  it("is positive when the price moves against the trader", () => {
+    const quoted = quoteTrade("buy", 1, 2, null);
+    expect(slippageBetween(quoted, quoteTrade("buy", 1, 2.02, null))).toBeCloseTo(100, 10);
+    expect(slippageBetween(quoteTrade("sell", 1, 2, null), quoteTrade("sell", 1, 2.02, null))).toBeCloseTo(-100, 10);
+  });
+});
+
+describe("tradeShortfall", () => {
+  const buy = quoteTrade("buy", 10, 2, null, 0);
+  const sell = quoteTrade("sell", 10, 2, null, 0);
+  const funded = { balance: 100, quote: 100 };
+
+  it("passes fills both sides can cover", () => {
+    expect(tradeShortfall(buy, funded, funded)).toBeNull();
+    expect(tradeShortfall(sell, funded, funded)).toBeNull();
+  });
+
+  it("refuses a buy the wallet cannot pay for or the desk cannot deliver", () => {
+    expect(tradeShortfall(buy, { balance: 0, quote: 19 }, funded)).toMatch(/Insufficient quote balance/);
+    expect(tradeShortfall(buy, funded, { balance: 9, quote: 0 })).toMatch(/desk inventory/);
+  });
+
+  it("refuses a sell the wallet cannot deliver or the desk cannot pay for", () => {
+    expect(tradeShortfall(sell, { balance: 9, quote: 0 }, funded)).toBe("Insufficient balance for this sale.");
+    expect(tradeShortfall(sell, funded, { balance: 0, quote: 19 })).toMatch(/cannot pay the proceeds/);
+  });
+});
@@ -0,0 +1,105 @@
+import type { AccountState, OrderBook, OrderLevel, TradeFill } from "../chain";
+
+export const DESK_FEE_BPS = 30;
+export const SLIPPAGE_OPTIONS_BPS = [10, 50, 100, 200];
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+export type TradeQuote = {
+  side: TradeFill["side"];
+  size: number;
+  reference: number;
+  price: number;
+  impactBps: number;
+  notional: number;
+  fee: number;
+  quote: number;
+  quotedAt: string;
+};
+
+export class TradeQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TradeQuoteError";
+  }
+}
+
+// Average price paid for `size` when sweeping `levels` from the touch, or null if the book is too thin.
+export const sweepPrice = (levels: OrderLevel[], size: number): number | null => {
+  let remaining = size;
+  let cost = 0;
+  for (const level of levels) {
+    const take = Math.min(level.size, remaining);
+    cost += take * level.price;
+    remaining -= take;
+    if (remaining <= 0) return cost / size;
+  }
+  return null;
+};
+
+// Fills at the latest close, shifted by the market impact that sweeping the visible book would cost.
+export const quoteTrade = (
+  side: TradeFill["side"],
+  size: number,
+  reference: number,
+  book: OrderBook | null,
+  feeBps = DESK_FEE_BPS,
+  now = new Date()
+): TradeQuote => {
+  if (!(size > 0)) throw new TradeQuoteError("Enter a trade size greater than zero.");
+  if (!(reference > 0)) throw new TradeQuoteError("No market price yet; wait for the first candle.");
+
+  let impactBps = 0;
+  if (book) {
+    const levels = side === "buy" ? book.asks : book.bids;
+    const touch = levels[0]?.price;
+    const average = sweepPrice(levels, size);
+    if (touch === undefined || average === null) {
+      throw new TradeQuoteError("Size exceeds the visible book depth; try a smaller trade.");
+    }
+    impactBps = (Math.abs(average - touch) / touch) * 10_000;
+  }
+
+  const price = reference * (1 + ((side === "buy" ? 1 : -1) * impactBps) / 10_000);
+  const notional = size * price;
+  const fee = (notional * feeBps) / 10_000;
+  return {
+    side,
+    size,
+    reference,
+    price,
+    impactBps,
+    notional,
+    fee,
+    quote: side === "buy" ? notional + fee : notional - fee,
+    quotedAt: now.toISOString()
+  };
+};
+
+// Adverse price movement between two quotes, in basis points; favourable moves come out negative.
+export const slippageBetween = (quoted: TradeQuote, executed: TradeQuote): number =>
+  ((executed.price - quoted.price) / quoted.price) * 10_000 * (quoted.side === "buy" ? 1 : -1);
+
+export const worstPrice = (quote: TradeQuote, toleranceBps: number): number =>
+  quote.price * (1 + ((quote.side === "buy" ? 1 : -1) * toleranceBps) / 10_000);
+
+export const toTradeFill = (executed: TradeQuote, slippageBps: number): TradeFill => ({
+  side: executed.side,
+  price: Number(executed.price.toFixed(6)),
+  quote: Number(executed.quote.toFixed(4)),
+  fee: Number(executed.fee.toFixed(4)),
+  slippageBps: Number(slippageBps.toFixed(2))
+});
+
+type TradeFunds = Pick<AccountState, "balance" | "quote">;
+
+// Why a fill cannot settle, or null when the wallet and the desk can each deliver their leg.
+export const tradeShortfall = (quote: TradeQuote, wallet: TradeFunds, desk: TradeFunds): string | null => {
+  if (quote.side === "buy") {
+    if (quote.quote > wallet.quote) return `Insufficient quote balance for this buy (${wallet.quote.toFixed(4)} available).`;
+    if (quote.size > desk.balance) return "The desk inventory cannot cover this buy; try a smaller trade.";
+    return null;
+  }
+  if (quote.size > wallet.balance) return "Insufficient balance for this sale.";
+  if (quote.quote > desk.quote) return "The desk cannot pay the proceeds of this sale; try a smaller trade.";
+  return null;
+};
@@ -0,0 +1,46 @@
+// `offset` counts candles hidden to the right of the window, so 0 keeps the chart pinned to the live edge.
+export type ChartViewport = {
+  size: number;
+  offset: number;
+};
+
+export const MIN_VISIBLE_CANDLES = 8;
+export const MAX_VISIBLE_CANDLES = 240;
+export const DEFAULT_VISIBLE_CANDLES = 24;
+export const ZOOM_STEP = 1.25;
+
+export const DEFAULT_CHART_VIEWPORT: ChartViewport = { size: DEFAULT_VISIBLE_CANDLES, offset: 0 };
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+export const clampViewport = (viewport: ChartViewport, total: number): ChartViewport => {
+  const size = clamp(Math.round(viewport.size), MIN_VISIBLE_CANDLES, MAX_VISIBLE_CANDLES);
+  return { size, offset: clamp(Math.round(viewport.offset), 0, Math.max(total - size, 0)) };
+};
+
+export const viewportRange = (viewport: ChartViewport, total: number): { start: number; end: number } => {
+  const { size, offset } = clampViewport(viewport, total);
+  const end = Math.max(total - offset, 0);
+  return { start: Math.max(end - size, 0), end };
+};
+
+export const panViewport = (viewport: ChartViewport, total: number, candles: number): ChartViewport =>
+  clampViewport({ ...viewport, offset: viewport.offset + candles }, total);
+
+// `anchor` is the 0–1 position across the window that stays under the cursor while zooming.
+export const zoomViewport = (viewport: ChartViewport, total: number, factor: number, anchor = 1): ChartViewport => {
+  const current = clampViewport(viewport, total);
+  const { start } = viewportRange(current, total);
+  const size = clamp(Math.round(current.size * factor), MIN_VISIBLE_CANDLES, MAX_VISIBLE_CANDLES);
+  const pivot = start + clamp(anchor, 0, 1) * (current.size - 1);
+  const nextStart = pivot - clamp(anchor, 0, 1) * (size - 1);
+  return clampViewport({ size, offset: total - (nextStart + size) }, total);
+};
+
+export const revealIndex = (viewport: ChartViewport, total: number, index: number): ChartViewport => {
+  const current = clampViewport(viewport, total);
+  const { start, end } = viewportRange(current, total);
+  if (index < start) return clampViewport({ ...current, offset: total - (index + current.size) }, total);
+  if (index >= end) return clampViewport({ ...current, offset: total - index - 1 }, total);
+  return current;
+};
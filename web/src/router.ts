@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MouseEvent } from "react";
+
+export type RouteKey =
+  | "/sys/manifest"
+  | "/validators"
+  | "/blocks"
+  | "/mempool"
+  | "/explorer"
+  | "/wallet"
+  | "/faucet"
+  | "/markets";
+
+export type RouteDetail =
+  | { kind: "block"; height: number }
+  | { kind: "tx"; hash: string }
+  | { kind: "address"; address: string }
+  | { kind: "validator"; id: string };
+
+export type RouteState = {
+  key: RouteKey;
+  path: string;
+  detail: RouteDetail | null;
+  query: URLSearchParams;
+};
+
+export const DEFAULT_ROUTE: RouteKey = "/sys/manifest";
+
+export const routes: { path: RouteKey; label: string; description: string }[] = [
+  { path: "/sys/manifest", label: "/sys/manifest", description: "network overview" },
+  { path: "/validators", label: "/validators", description: "validator roster" },
+  { path: "/blocks", label: "/blocks", description: "live block feed" },
+  { path: "/mempool", label: "/mempool", description: "pending transfers" },
+  { path: "/explorer", label: "/explorer", description: "ledger + registry" },
+  { path: "/markets", label: "/markets", description: "xLUNAR markets" },
+  { path: "/wallet", label: "/wallet", description: "manage account" },
+  { path: "/faucet", label: "/faucet", description: "claim resources" }
+];
+
+const routeKeys = new Set<string>(routes.map((route) => route.path));
+
+export const isRouteKey = (value: string): value is RouteKey => routeKeys.has(value);
+
+export const blockPath = (height: number): string => `/blocks/${height}`;
+
+export const txPath = (hash: string): string => `/explorer/tx/${hash}`;
+
+export const addressPath = (address: string, page = 1): string =>
+  `/explorer/address/${encodeURIComponent(address)}${page > 1 ? `?page=${page}` : ""}`;
+
+export const validatorPath = (id: string): string => `/validators/${encodeURIComponent(id)}`;
+
+const normalisePath = (pathname: string): string => {
+  const trimmed = pathname.replace(/\/+$/, "");
+  return trimmed === "" ? "/" : trimmed;
+};
+
+export const parseRoute = (pathname: string, search = ""): RouteState | null => {
+  const path = normalisePath(pathname);
+  const query = new URLSearchParams(search);
+
+  if (isRouteKey(path)) {
+    return { key: path, path, detail: null, query };
+  }
+
+  const validatorMatch = path.match(/^\/validators\/([^/]+)$/);
+  if (validatorMatch) {
+    return { key: "/validators", path, detail: { kind: "validator", id: decodeURIComponent(validatorMatch[1]) }, query };
+  }
+
+  const blockMatch = path.match(/^\/blocks\/(\d+)$/);
+  if (blockMatch) {
+    return { key: "/blocks", path, detail: { kind: "block", height: Number(blockMatch[1]) }, query };
+  }
+
+  const txMatch = path.match(/^\/explorer\/tx\/(0x[0-9a-fA-F]+)$/);
+  if (txMatch) {
+    return { key: "/explorer", path, detail: { kind: "tx", hash: txMatch[1] }, query };
+  }
+
+  const addressMatch = path.match(/^\/explorer\/address\/([^/]+)$/);
+  if (addressMatch) {
+    const address = decodeURIComponent(addressMatch[1]);
+    return { key: "/explorer", path, detail: { kind: "address", address }, query };
+  }
+
+  return null;
+};
+
+const readLocation = (): RouteState =>
+  parseRoute(window.location.pathname, window.location.search) ??
+  { key: DEFAULT_ROUTE, path: DEFAULT_ROUTE, detail: null, query: new URLSearchParams() };
+
+export const isPlainLeftClick = (event: MouseEvent<HTMLElement>): boolean =>
+  event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey;
+
+export const useHistoryRoute = () => {
+  const [route, setRoute] = useState<RouteState>(readLocation);
+
+  useEffect(() => {
+    const current = readLocation();
+    if (current.path !== normalisePath(window.location.pathname)) {
+      window.history.replaceState(null, "", current.path);
+    }
+
+    const handlePopState = () => setRoute(readLocation());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback((path: string, options: { replace?: boolean } = {}) => {
+    const [pathname, search = ""] = path.split("?");
+    const next = parseRoute(pathname, search);
+    if (!next) return;
+    const target = search ? `${next.path}?${search}` : next.path;
+    if (`${window.location.pathname}${window.location.search}` !== target) {
+      if (options.replace) {
+        window.history.replaceState(null, "", target);
+      } else {
+        window.history.pushState(null, "", target);
+      }
+    }
+    setRoute(next);
+  }, []);
+
+  const followLink = useCallback(
+    (event: MouseEvent<HTMLElement>, path: string) => {
+      if (!isPlainLeftClick(event)) return;
+      event.preventDefault();
+      navigate(path);
+    },
+    [navigate]
+  );
+
+  return { route, navigate, followLink };
+};
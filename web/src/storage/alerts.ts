@@ -0,0 +1,55 @@
+import { alertKinds } from "../markets/alerts";
+import type { AlertRule } from "../markets/alerts";
+
+export const ALERTS_STORAGE_KEY = "xprotocol.alerts";
+export const ALERTS_SCHEMA_VERSION = 1;
+
+type PersistedAlerts = {
+  version: typeof ALERTS_SCHEMA_VERSION;
+  savedAt: string;
+  rules: AlertRule[];
+};
+
+const isAlertRule = (value: unknown): value is AlertRule => {
+  if (typeof value !== "object" || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  return (
+    typeof rule.id === "string" &&
+    alertKinds.some((kind) => kind.id === rule.kind) &&
+    typeof rule.threshold === "number" &&
+    Number.isFinite(rule.threshold) &&
+    typeof rule.enabled === "boolean" &&
+    typeof rule.notify === "boolean"
+  );
+};
+
+// Rules that no longer match the shape are dropped rather than failing the whole list.
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = window.localStorage.getItem(ALERTS_STORAGE_KEY);
+    if (!raw) return [];
+    const payload = JSON.parse(raw) as Partial<PersistedAlerts>;
+    if (payload.version !== ALERTS_SCHEMA_VERSION || !Array.isArray(payload.rules)) return [];
+    return payload.rules.filter(isAlertRule).map((rule) => ({
+      ...rule,
+      createdAt: typeof rule.createdAt === "string" ? rule.createdAt : new Date(0).toISOString(),
+      lastTriggeredAt: typeof rule.lastTriggeredAt === "string" ? rule.lastTriggeredAt : null
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]): boolean => {
+  const payload: PersistedAlerts = {
+    version: ALERTS_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    rules
+  };
+  try {
+    window.localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(payload));
+    return true;
+  } catch {
+    return false;
+  }
+};
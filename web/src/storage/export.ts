@@ -0,0 +1,161 @@
+import type { BlockEntry, CandleEntry, ChainSnapshot, LedgerEntry, TickEntry, TradeFill } from "../chain";
+
+export const EXPORT_SCHEMA_VERSION = 4;
+
+export type ExportDataset = "ledger" | "blocks" | "candles" | "ticks";
+
+type ExportRows = {
+  ledger: LedgerEntry[];
+  blocks: BlockEntry[];
+  candles: CandleEntry[];
+  ticks: TickEntry[];
+};
+
+export type JsonExport<K extends ExportDataset> = {
+  schema: `xprotocol.${K}`;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  count: number;
+  rows: ExportRows[K];
+};
+
+export type SnapshotExport = ChainSnapshot & {
+  schema: "xprotocol.snapshot";
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+};
+
+export type ExportFile = {
+  filename: string;
+  content: string;
+  type: string;
+};
+
+// CSV has no nesting, so a desk fill's `trade` record is flattened into `trade_*` columns.
+type LedgerCsvRow = Omit<LedgerEntry, "trade"> & {
+  trade_side?: TradeFill["side"];
+  trade_price?: number;
+  trade_quote?: number;
+  trade_fee?: number;
+  trade_slippageBps?: number;
+};
+
+const ledgerColumns: (keyof LedgerCsvRow)[] = [
+  "id",
+  "hash",
+  "from",
+  "to",
+  "amount",
+  "memo",
+  "status",
+  "origin",
+  "timestamp",
+  "nonce",
+  "blockHeight",
+  "signature",
+  "publicKey",
+  "trade_side",
+  "trade_price",
+  "trade_quote",
+  "trade_fee",
+  "trade_slippageBps"
+];
+
+const ledgerCsvRow = ({ trade, ...entry }: LedgerEntry): LedgerCsvRow => ({
+  ...entry,
+  trade_side: trade?.side,
+  trade_price: trade?.price,
+  trade_quote: trade?.quote,
+  trade_fee: trade?.fee,
+  trade_slippageBps: trade?.slippageBps
+});
+
+const candleColumns: (keyof CandleEntry)[] = [
+  "id",
+  "timestamp",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "buyers",
+  "sellers",
+  "holders"
+];
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Leading `#` lines carry the schema and timestamp; most CSV readers accept a comment prefix.
+export const toCsv = <T extends object>(
+  dataset: ExportDataset,
+  columns: (keyof T)[],
+  rows: T[],
+  exportedAt: string
+): string =>
+  [
+    `# schema: xprotocol.${dataset}`,
+    `# version: ${EXPORT_SCHEMA_VERSION}`,
+    `# exported_at: ${exportedAt}`,
+    columns.map(String).join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(","))
+  ].join("\n");
+
+export const toJsonExport = <K extends ExportDataset>(
+  dataset: K,
+  rows: ExportRows[K],
+  exportedAt: string
+): JsonExport<K> => ({
+  schema: `xprotocol.${dataset}`,
+  version: EXPORT_SCHEMA_VERSION,
+  exportedAt,
+  count: rows.length,
+  rows
+});
+
+const fileStamp = (exportedAt: string): string => exportedAt.replace(/[:.]/g, "-");
+
+export const exportJson = <K extends ExportDataset>(dataset: K, rows: ExportRows[K], now = new Date()): ExportFile => {
+  const exportedAt = now.toISOString();
+  return {
+    filename: `xprotocol-${dataset}-${fileStamp(exportedAt)}.json`,
+    content: JSON.stringify(toJsonExport(dataset, rows, exportedAt), null, 2),
+    type: "application/json"
+  };
+};
+
+export const exportLedgerCsv = (ledger: LedgerEntry[], now = new Date()): ExportFile => {
+  const exportedAt = now.toISOString();
+  return {
+    filename: `xprotocol-ledger-${fileStamp(exportedAt)}.csv`,
+    content: toCsv("ledger", ledgerColumns, ledger.map(ledgerCsvRow), exportedAt),
+    type: "text/csv"
+  };
+};
+
+export const exportCandlesCsv = (candles: CandleEntry[], now = new Date()): ExportFile => {
+  const exportedAt = now.toISOString();
+  return {
+    filename: `xprotocol-candles-${fileStamp(exportedAt)}.csv`,
+    content: toCsv("candles", candleColumns, candles, exportedAt),
+    type: "text/csv"
+  };
+};
+
+export const exportSnapshot = (snapshot: ChainSnapshot, now = new Date()): ExportFile => {
+  const exportedAt = now.toISOString();
+  const payload: SnapshotExport = {
+    schema: "xprotocol.snapshot",
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt,
+    ...snapshot
+  };
+  return {
+    filename: `xprotocol-snapshot-${fileStamp(exportedAt)}.json`,
+    content: JSON.stringify(payload, null, 2),
+    type: "application/json"
+  };
+};
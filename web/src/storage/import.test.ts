@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { LedgerEntry } from "../chain";
+import { EXPORT_SCHEMA_VERSION } from "./export";
+import { SnapshotImportError, formatImportIssue, parseSnapshotImport } from "./import";
+
+const ledgerRow: LedgerEntry = {
+  id: "tx-1",
+  hash: "0xabc",
+  from: "0xWallet",
+  to: "0xOther",
+  amount: 5,
+  status: "pending",
+  timestamp: "2026-10-19T00:00:00.000Z",
+  origin: "desk",
+  nonce: 0,
+  trade: { side: "buy", price: 1.2, quote: 6.018, fee: 0.018, slippageBps: 0 }
+};
+
+const tick = (id: string, price: number, side?: "buy" | "sell") => ({
+  id,
+  price,
+  volume: 1,
+  holders: 3,
+  timestamp: "2026-10-19T00:00:00.000Z",
+  ...(side ? { side } : {})
+});
+
+const snapshot = (version: number, body: Record<string, unknown>) =>
+  JSON.stringify({ schema: "xprotocol.snapshot", version, exportedAt: "2026-10-19T00:00:00.000Z", ...body });
+
+const importIssues = (text: string): string[] => {
+  try {
+    parseSnapshotImport(text);
+  } catch (error) {
+    if (error instanceof SnapshotImportError) return error.issues.map(formatImportIssue);
+    throw error;
+  }
+  throw new Error("expected the import to fail");
+};
+
+describe("parseSnapshotImport", () => {
+  it("accepts a current snapshot and counts its rows", () => {
+    const result = parseSnapshotImport(
+      snapshot(EXPORT_SCHEMA_VERSION, { ledger: [ledgerRow], blocks: [], ticks: [tick("t-1", 1, "sell")] })
+    );
+    expect(result.datasets).toEqual(["ledger", "blocks", "ticks"]);
+    expect(result.counts).toMatchObject({ ledger: 1, blocks: 0, ticks: 1 });
+    expect(result.snapshot.ledger[0].trade).toEqual(ledgerRow.trade);
+  });
+
+  it("accepts a single-dataset export", () => {
+    const text = JSON.stringify({ schema: "xprotocol.ledger", version: EXPORT_SCHEMA_VERSION, rows: [ledgerRow] });
+    expect(parseSnapshotImport(text).datasets).toEqual(["ledger"]);
+  });
+
+  it("rejects files that are not versioned xprotocol exports", () => {
+    expect(() => parseSnapshotImport("{")).toThrow("File is not valid JSON.");
+    expect(() => parseSnapshotImport(JSON.stringify({ version: 1 }))).toThrow("Missing xprotocol schema header.");
+    expect(() => parseSnapshotImport(snapshot(EXPORT_SCHEMA_VERSION + 1, { ledger: [] }))).toThrow(
+      "Unsupported schema version"
+    );
+    expect(() => parseSnapshotImport(JSON.stringify({ schema: "xprotocol.other", version: 1 }))).toThrow(
+      "Unknown schema"
+    );
+  });
+
+  it("reports every invalid field by dataset and row, and imports nothing", () => {
+    const issues = importIssues(
+      snapshot(EXPORT_SCHEMA_VERSION, {
+        ledger: [ledgerRow, { ...ledgerRow, amount: -1, trade: { side: "hold" } }],
+        blocks: "none"
+      })
+    );
+    expect(issues).toEqual([
+      "ledger[1]: amount must be a non-negative number",
+      "ledger[1]: trade must be a { side, price, quote, fee, slippageBps } fill when present",
+      "blocks: blocks must be an array"
+    ]);
+  });
+
+  it("requires a tick side from version 3 on", () => {
+    expect(importIssues(snapshot(3, { ticks: [tick("t-1", 1)] }))).toEqual([
+      "ticks[0]: side must be one of buy, sell"
+    ]);
+  });
+
+  it("classifies version 2 ticks with the tick test", () => {
+    const { snapshot: imported } = parseSnapshotImport(
+      snapshot(2, { ticks: [tick("t-1", 1), tick("t-2", 1.1), tick("t-3", 1.1), tick("t-4", 1.05)] })
+    );
+    expect(imported.ticks.map((entry) => entry.side)).toEqual(["buy", "buy", "buy", "sell"]);
+  });
+
+  it("expands version 1 candles into open, high, low and close prints", () => {
+    const candle = {
+      id: "c-1",
+      open: 1,
+      high: 1.4,
+      low: 0.9,
+      close: 1.2,
+      volume: 7,
+      buyers: 1,
+      sellers: 1,
+      holders: 3,
+      timestamp: "2026-10-19T00:00:00.000Z"
+    };
+    const result = parseSnapshotImport(snapshot(1, { candles: [candle] }));
+    expect(result.counts.candles).toBe(1);
+    expect(result.snapshot.ticks.map((entry) => entry.price)).toEqual([1, 1.4, 0.9, 1.2]);
+    expect(result.snapshot.ticks.map((entry) => entry.volume)).toEqual([0, 0, 0, 7]);
+    expect(importIssues(snapshot(1, { candles: [{ ...candle, high: 1.1 }] }))).toEqual([
+      "candles[0]: high/low must bound open and close"
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import { ledgerOrigins, ledgerStatuses } from "../chain";
+import type { BlockEntry, CandleEntry, ChainSnapshot, LedgerEntry, TickEntry } from "../chain";
+import { classifyTickSides, ticksFromCandles } from "../markets/candles";
+import type { UnsidedTick } from "../markets/candles";
+import { EXPORT_SCHEMA_VERSION } from "./export";
+import type { ExportDataset } from "./export";
+
+export type ImportIssue = {
+  dataset: ExportDataset;
+  index: number;
+  message: string;
+};
+
+export type SnapshotImport = {
+  datasets: ExportDataset[];
+  counts: Partial<Record<ExportDataset, number>>;
+  snapshot: ChainSnapshot;
+};
+
+export class SnapshotImportError extends Error {
+  readonly issues: ImportIssue[];
+
+  constructor(message: string, issues: ImportIssue[] = []) {
+    super(message);
+    this.name = "SnapshotImportError";
+    this.issues = issues;
+  }
+}
+
+type Row = Record<string, unknown>;
+type FieldCheck = (row: Row) => string | null;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const required =
+  (field: string, test: (value: unknown) => boolean, expected: string): FieldCheck =>
+  (row) =>
+    test(row[field]) ? null : `${field} must be ${expected}`;
+
+const optional =
+  (field: string, test: (value: unknown) => boolean, expected: string): FieldCheck =>
+  (row) =>
+    row[field] === undefined || test(row[field]) ? null : `${field} must be ${expected} when present`;
+
+const oneOf = (options: readonly string[]) => (value: unknown) => isString(value) && options.includes(value);
+const nonEmpty = (value: unknown) => isString(value) && value.length > 0;
+const prefixedHash = (value: unknown) => isString(value) && value.startsWith("0x") && value.length > 2;
+const hexDigits = (value: unknown) => isString(value) && /^(0x)?[0-9a-f]+$/i.test(value);
+const timestamp = (value: unknown) => isString(value) && !Number.isNaN(Date.parse(value));
+const nonNegative = (value: unknown) => isNumber(value) && value >= 0;
+const nonNegativeInteger = (value: unknown) => isInteger(value) && (value as number) >= 0;
+const stringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+const tradeSides = ["buy", "sell"];
+const tradeFill = (value: unknown) => {
+  if (typeof value !== "object" || value === null) return false;
+  const fill = value as Row;
+  return (
+    oneOf(tradeSides)(fill.side) &&
+    nonNegative(fill.price) &&
+    nonNegative(fill.quote) &&
+    nonNegative(fill.fee) &&
+    isNumber(fill.slippageBps)
+  );
+};
+
+const ledgerChecks: FieldCheck[] = [
+  required("id", nonEmpty, "a non-empty string"),
+  required("hash", prefixedHash, "a 0x-prefixed hash"),
+  required("from", nonEmpty, "a non-empty string"),
+  required("to", nonEmpty, "a non-empty string"),
+  required("amount", nonNegative, "a non-negative number"),
+  optional("memo", isString, "a string"),
+  required("status", oneOf(ledgerStatuses), `one of ${ledgerStatuses.join(", ")}`),
+  required("timestamp", timestamp, "an ISO timestamp"),
+  required("origin", oneOf(ledgerOrigins), `one of ${ledgerOrigins.join(", ")}`),
+  optional("nonce", nonNegativeInteger, "a non-negative integer"),
+  optional("signature", hexDigits, "a hex string"),
+  optional("publicKey", hexDigits, "a hex string"),
+  optional("blockHeight", nonNegativeInteger, "a non-negative integer"),
+  optional("trade", tradeFill, "a { side, price, quote, fee, slippageBps } fill")
+];
+
+const blockChecks: FieldCheck[] = [
+  required("height", nonNegativeInteger, "a non-negative integer"),
+  required("producer", nonEmpty, "a non-empty string"),
+  required("tps", nonNegative, "a non-negative number"),
+  required("latency", nonNegative, "a non-negative number"),
+  required("txCount", nonNegativeInteger, "a non-negative integer"),
+  required("hash", prefixedHash, "a 0x-prefixed hash"),
+  required("parentHash", prefixedHash, "a 0x-prefixed hash"),
+  required("txRoot", prefixedHash, "a 0x-prefixed hash"),
+  required("txIds", stringArray, "an array of ledger ids"),
+  required("commentary", isString, "a string"),
+  required("timestamp", timestamp, "an ISO timestamp"),
+  optional("slot", nonNegativeInteger, "a non-negative integer")
+];
+
+const candleChecks: FieldCheck[] = [
+  required("id", nonEmpty, "a non-empty string"),
+  required("open", nonNegative, "a non-negative number"),
+  required("high", nonNegative, "a non-negative number"),
+  required("low", nonNegative, "a non-negative number"),
+  required("close", nonNegative, "a non-negative number"),
+  required("volume", nonNegative, "a non-negative number"),
+  required("buyers", nonNegativeInteger, "a non-negative integer"),
+  required("sellers", nonNegativeInteger, "a non-negative integer"),
+  required("holders", nonNegativeInteger, "a non-negative integer"),
+  required("timestamp", timestamp, "an ISO timestamp"),
+  (row) =>
+    isNumber(row.high) && isNumber(row.low) && isNumber(row.open) && isNumber(row.close)
+      ? row.high >= Math.max(row.open, row.close) && row.low <= Math.min(row.open, row.close)
+        ? null
+        : "high/low must bound open and close"
+      : null
+];
+
+// Ticks gained an aggressor `side` in version 3; older ticks are classified with the tick test instead.
+const tickChecks = (version: number): FieldCheck[] => [
+  required("id", nonEmpty, "a non-empty string"),
+  required("price", nonNegative, "a non-negative number"),
+  required("volume", nonNegative, "a non-negative number"),
+  (version >= 3 ? required : optional)("side", oneOf(tradeSides), `one of ${tradeSides.join(", ")}`),
+  required("holders", nonNegativeInteger, "a non-negative integer"),
+  required("timestamp", timestamp, "an ISO timestamp")
+];
+
+const validateRows = <T,>(
+  dataset: ExportDataset,
+  value: unknown,
+  checks: FieldCheck[],
+  issues: ImportIssue[]
+): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ dataset, index: -1, message: `${dataset} must be an array` });
+    return [];
+  }
+  value.forEach((row, index) => {
+    if (typeof row !== "object" || row === null) {
+      issues.push({ dataset, index, message: "row must be an object" });
+      return;
+    }
+    checks.forEach((check) => {
+      const message = check(row as Row);
+      if (message) issues.push({ dataset, index, message });
+    });
+  });
+  return value as T[];
+};
+
+export const formatImportIssue = (issue: ImportIssue): string =>
+  issue.index < 0 ? `${issue.dataset}: ${issue.message}` : `${issue.dataset}[${issue.index}]: ${issue.message}`;
+
+// Accepts either a full `xprotocol.snapshot` or a single-dataset export such as `xprotocol.ledger`.
+// Version 1 snapshots carried candles instead of ticks; those are expanded into ticks on import.
+export const parseSnapshotImport = (text: string): SnapshotImport => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new SnapshotImportError("File is not valid JSON.");
+  }
+
+  if (typeof payload !== "object" || payload === null) {
+    throw new SnapshotImportError("Snapshot must be a JSON object.");
+  }
+  const { schema, version } = payload as Row;
+  if (!isString(schema) || !schema.startsWith("xprotocol.")) {
+    throw new SnapshotImportError("Missing xprotocol schema header.");
+  }
+  if (!isInteger(version) || version < 1 || version > EXPORT_SCHEMA_VERSION) {
+    throw new SnapshotImportError(`Unsupported schema version ${String(version)}; expected ${EXPORT_SCHEMA_VERSION}.`);
+  }
+
+  const dataset = schema.slice("xprotocol.".length);
+  const source = payload as Row;
+  const sections: Partial<Record<ExportDataset, unknown>> =
+    dataset === "snapshot"
+      ? { ledger: source.ledger, blocks: source.blocks, candles: source.candles, ticks: source.ticks }
+      : dataset === "ledger" || dataset === "blocks" || dataset === "candles" || dataset === "ticks"
+      ? { [dataset]: source.rows }
+      : {};
+  const datasets = (Object.keys(sections) as ExportDataset[]).filter((key) => sections[key] !== undefined);
+  if (datasets.length === 0) {
+    throw new SnapshotImportError(`Unknown schema ${schema} or no rows to import.`);
+  }
+
+  const issues: ImportIssue[] = [];
+  const candles = validateRows<CandleEntry>("candles", sections.candles, candleChecks, issues);
+  const ticks = classifyTickSides(validateRows<UnsidedTick>("ticks", sections.ticks, tickChecks(version), issues));
+  const snapshot: ChainSnapshot = {
+    ledger: validateRows<LedgerEntry>("ledger", sections.ledger, ledgerChecks, issues),
+    blocks: validateRows<BlockEntry>("blocks", sections.blocks, blockChecks, issues),
+    ticks: [...ticksFromCandles(candles), ...ticks]
+  };
+  if (issues.length > 0) {
+    throw new SnapshotImportError(
+      `${issues.length} validation issue${issues.length === 1 ? "" : "s"}; nothing was imported.`,
+      issues
+    );
+  }
+  const counts = {
+    ledger: snapshot.ledger.length,
+    blocks: snapshot.blocks.length,
+    candles: candles.length,
+    ticks: ticks.length
+  };
+  return { datasets, counts, snapshot };
+};
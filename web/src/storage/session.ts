@@ -0,0 +1,135 @@
+import { FAUCET_ADDRESS, type FaucetEntry, type LedgerEntry } from "../chain";
+
+export const SESSION_STORAGE_KEY = "xprotocol.session";
+export const SESSION_SCHEMA_VERSION = 4;
+
+// `privateKeyJwk` lives in memory only; `saveSession` drops it, so restored wallets are keyless until their
+// keystore is imported again.
+export type StoredWallet = {
+  address: string;
+  label: string;
+  createdAt: string;
+  publicKey: string | null;
+  privateKeyJwk: JsonWebKey | null;
+};
+
+export type PersistedSession = {
+  version: typeof SESSION_SCHEMA_VERSION;
+  savedAt: string;
+  activeWallet: string | null;
+  wallets: StoredWallet[];
+  ledger: LedgerEntry[];
+  faucetHistory: FaucetEntry[];
+};
+
+type VersionedPayload = { version: number } & Record<string, unknown>;
+
+// Each entry upgrades a payload from `version` to `version + 1`.
+const migrations: Record<number, (payload: VersionedPayload) => VersionedPayload> = {
+  // v2 attaches signing keys; wallets created before that stay keyless.
+  1: (payload) => ({
+    ...payload,
+    version: 2,
+    wallets: (Array.isArray(payload.wallets) ? payload.wallets : []).map((wallet) => ({
+      ...(wallet as object),
+      publicKey: null,
+      privateKeyJwk: null
+    }))
+  }),
+  // v3 derives balances from the ledger, so stored balances become opening faucet entries.
+  2: (payload) => {
+    const wallets = (Array.isArray(payload.wallets) ? payload.wallets : []) as Array<Record<string, unknown>>;
+    const ledger = (Array.isArray(payload.ledger) ? payload.ledger : []) as LedgerEntry[];
+    const openings: LedgerEntry[] = [];
+    wallets.forEach((wallet) => {
+      const address = String(wallet.address);
+      const net = ledger.reduce(
+        (sum, entry) => sum + (entry.to === address ? entry.amount : 0) - (entry.from === address ? entry.amount : 0),
+        0
+      );
+      const opening = Number(wallet.balance ?? 0) - net;
+      if (!(opening > 0)) return;
+      openings.push({
+        id: `opening-${address}`,
+        hash: `0xopening${address.slice(2, 12)}`,
+        from: FAUCET_ADDRESS,
+        to: address,
+        amount: Number(opening.toFixed(4)),
+        memo: "opening balance",
+        status: "confirmed",
+        timestamp: typeof wallet.createdAt === "string" ? wallet.createdAt : new Date(0).toISOString(),
+        origin: "faucet"
+      });
+    });
+    return {
+      ...payload,
+      version: 3,
+      wallets: wallets.map(({ balance: _balance, ...wallet }) => wallet),
+      ledger: [...ledger, ...openings]
+    };
+  },
+  // v4 stops persisting private keys and purges any that earlier versions wrote in plaintext.
+  3: (payload) => ({
+    ...payload,
+    version: 4,
+    wallets: (Array.isArray(payload.wallets) ? payload.wallets : []).map((wallet) => ({
+      ...(wallet as object),
+      privateKeyJwk: null
+    }))
+  })
+};
+
+const isVersionedPayload = (value: unknown): value is VersionedPayload =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { version?: unknown }).version === "number";
+
+export const migrateSession = (payload: unknown): PersistedSession | null => {
+  if (!isVersionedPayload(payload)) return null;
+
+  let current = payload;
+  while (current.version < SESSION_SCHEMA_VERSION) {
+    const migrate = migrations[current.version];
+    if (!migrate) return null;
+    current = migrate(current);
+  }
+
+  if (current.version !== SESSION_SCHEMA_VERSION) return null;
+  const session = current as unknown as PersistedSession;
+  if (!Array.isArray(session.wallets) || !Array.isArray(session.ledger) || !Array.isArray(session.faucetHistory)) {
+    return null;
+  }
+  return session;
+};
+
+export const loadSession = (): PersistedSession | null => {
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? migrateSession(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: Omit<PersistedSession, "version" | "savedAt">): boolean => {
+  const payload: PersistedSession = {
+    version: SESSION_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    ...session,
+    wallets: session.wallets.map((wallet) => ({ ...wallet, privateKeyJwk: null }))
+  };
+  try {
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(payload));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearSession = (): void => {
+  try {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    /* storage may be unavailable in private browsing; nothing to clear */
+  }
+};
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+
+export type KeyBinding = {
+  key: string;
+  description: string;
+  group: string;
+  run: () => void;
+};
+
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+};
+
+export const groupBindings = (bindings: KeyBinding[]): [string, KeyBinding[]][] => {
+  const groups = new Map<string, KeyBinding[]>();
+  bindings.forEach((binding) => {
+    groups.set(binding.group, [...(groups.get(binding.group) ?? []), binding]);
+  });
+  return Array.from(groups.entries());
+};
+
+export const useKeymap = (bindings: KeyBinding[]) => {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const binding = bindingsRef.current.find((entry) => entry.key === event.key);
+      if (!binding) return;
+      event.preventDefault();
+      binding.run();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+};
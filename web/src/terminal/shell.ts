@@ -0,0 +1,124 @@
+export type ShellCommand =
+  | { name: "help" }
+  | { name: "clear" }
+  | { name: "cd"; path: string }
+  | { name: "send"; amount: string; recipient: string; memo?: string }
+  | { name: "faucet" }
+  | { name: "block"; height: number }
+  | { name: "copy"; target: string };
+
+export type ShellParseResult =
+  | { ok: true; command: ShellCommand }
+  | { ok: false; error: string };
+
+export type ShellCompletion = {
+  value: string;
+  matches: string[];
+};
+
+export const shellCommands: { name: ShellCommand["name"]; usage: string; description: string }[] = [
+  { name: "help", usage: "help", description: "list available commands" },
+  { name: "cd", usage: "cd <route>", description: "navigate, e.g. cd /markets" },
+  { name: "send", usage: "send <amount> <address> [--memo text]", description: "transfer from the active wallet" },
+  { name: "faucet", usage: "faucet", description: "request a drip to the active wallet" },
+  { name: "block", usage: "block <height>", description: "open a block detail view" },
+  { name: "copy", usage: "copy <address|label>", description: "copy an address to the clipboard" },
+  { name: "clear", usage: "clear", description: "clear the feed" }
+];
+
+export const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+};
+
+const usageFor = (name: ShellCommand["name"]): string =>
+  shellCommands.find((command) => command.name === name)?.usage ?? name;
+
+export const parseCommand = (input: string): ShellParseResult => {
+  const [name, ...args] = tokenize(input.trim());
+  if (!name) {
+    return { ok: false, error: "empty command" };
+  }
+
+  switch (name) {
+    case "help":
+    case "clear":
+    case "faucet":
+      return { ok: true, command: { name } };
+    case "cd":
+      if (args.length !== 1) return { ok: false, error: `usage: ${usageFor("cd")}` };
+      return { ok: true, command: { name, path: args[0].startsWith("/") ? args[0] : `/${args[0]}` } };
+    case "block": {
+      const height = Number(args[0]?.replace(/^#/, "").replace(/,/g, ""));
+      if (args.length !== 1 || !Number.isInteger(height) || height < 0) {
+        return { ok: false, error: `usage: ${usageFor("block")}` };
+      }
+      return { ok: true, command: { name, height } };
+    }
+    case "copy":
+      if (args.length !== 1) return { ok: false, error: `usage: ${usageFor("copy")}` };
+      return { ok: true, command: { name, target: args[0] } };
+    case "send": {
+      const positional: string[] = [];
+      let memo: string | undefined;
+      for (let index = 0; index < args.length; index += 1) {
+        const arg = args[index];
+        if (arg === "--memo") {
+          memo = args[index + 1];
+          if (memo === undefined) return { ok: false, error: "--memo expects a value" };
+          index += 1;
+        } else if (arg.startsWith("--")) {
+          return { ok: false, error: `unknown flag ${arg}` };
+        } else {
+          positional.push(arg);
+        }
+      }
+      if (positional.length !== 2) return { ok: false, error: `usage: ${usageFor("send")}` };
+      return { ok: true, command: { name, amount: positional[0], recipient: positional[1], memo } };
+    }
+    default:
+      return { ok: false, error: `command not found: ${name} (try help)` };
+  }
+};
+
+const commonPrefix = (values: string[]): string =>
+  values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length] === value[length]) length += 1;
+    return prefix.slice(0, length);
+  });
+
+export const completeInput = (
+  input: string,
+  sources: { paths: string[]; labels: string[] }
+): ShellCompletion => {
+  const tokens = input.split(/\s+/);
+  const current = tokens[tokens.length - 1] ?? "";
+  const isFirstToken = tokens.length === 1;
+  const commandName = tokens[0];
+
+  let candidates: string[];
+  if (isFirstToken) {
+    candidates = shellCommands.map((command) => command.name);
+  } else if (commandName === "cd") {
+    candidates = sources.paths;
+  } else if (commandName === "copy") {
+    candidates = sources.labels;
+  } else {
+    candidates = [...sources.paths, ...sources.labels];
+  }
+
+  const matches = candidates.filter((candidate) => candidate.startsWith(current));
+  if (matches.length === 0) {
+    return { value: input, matches };
+  }
+
+  const head = tokens.slice(0, -1).join(" ");
+  const completed = matches.length === 1 ? `${matches[0]} ` : commonPrefix(matches);
+  return { value: head ? `${head} ${completed}` : completed, matches };
+};
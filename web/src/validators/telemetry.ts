@@ -0,0 +1,149 @@
+import { explorerAddresses, slotLeader, validatorAgents } from "../chain";
+import type { BlockEntry, ValidatorHeartbeat, ValidatorStatus } from "../chain";
+
+export const UPTIME_WINDOW_SLOTS = 60;
+export const SPARKLINE_BLOCKS = 12;
+
+export type ValidatorPresence = {
+  status: ValidatorStatus;
+  since: string | null;
+  lastHeartbeat: string | null;
+};
+
+export type ValidatorRoster = Record<string, ValidatorPresence>;
+
+export type MissedSlot = {
+  slot: number;
+  validator: string;
+};
+
+export type StatusChange = {
+  validator: string;
+  from: ValidatorStatus;
+  to: ValidatorStatus;
+  timestamp: string;
+};
+
+export type ProposalRow =
+  | { kind: "proposed"; slot: number | null; block: BlockEntry }
+  | { kind: "missed"; slot: number };
+
+export type PersonaLine = {
+  line: string;
+  count: number;
+  lastHeight: number;
+  lastPosted: string;
+};
+
+export type ValidatorTelemetry = ValidatorPresence & {
+  id: string;
+  role: string;
+  persona: string;
+  proposed: number;
+  missed: number;
+  averageLatency: number | null;
+  uptime: number | null;
+  recentLatency: number[];
+};
+
+export const initialRoster = (): ValidatorRoster =>
+  Object.fromEntries(validatorAgents.map((agent) => [agent.id, { status: agent.status, since: null, lastHeartbeat: null }]));
+
+// `since` only moves when the reported status differs, so repeated heartbeats keep the original transition time.
+export const applyHeartbeat = (roster: ValidatorRoster, heartbeat: ValidatorHeartbeat): ValidatorRoster => {
+  const current = roster[heartbeat.validator];
+  const changed = !current || current.status !== heartbeat.status;
+  return {
+    ...roster,
+    [heartbeat.validator]: {
+      status: heartbeat.status,
+      since: changed ? heartbeat.timestamp : current.since,
+      lastHeartbeat: heartbeat.timestamp
+    }
+  };
+};
+
+const slottedBlocks = (blocks: BlockEntry[]): (BlockEntry & { slot: number })[] =>
+  blocks
+    .filter((block): block is BlockEntry & { slot: number } => block.slot !== undefined)
+    .sort((a, b) => a.slot - b.slot);
+
+// Every slot skipped between two consecutive blocks belongs to the leader scheduled for it. Blocks without a slot
+// (older snapshots, nodes that don't report one) can't attribute misses and are left out.
+export const missedSlots = (blocks: BlockEntry[]): MissedSlot[] => {
+  const slotted = slottedBlocks(blocks);
+  return slotted.flatMap((block, index) => {
+    const previous = slotted[index - 1];
+    if (!previous) return [];
+    return Array.from({ length: Math.max(block.slot - previous.slot - 1, 0) }, (_, offset) => {
+      const slot = previous.slot + 1 + offset;
+      return { slot, validator: slotLeader(slot) };
+    });
+  });
+};
+
+// Counts and latency cover every buffered block; uptime is proposed over scheduled slots in the last `window` slots.
+export const validatorTelemetry = (
+  blocks: BlockEntry[],
+  roster: ValidatorRoster,
+  window = UPTIME_WINDOW_SLOTS
+): ValidatorTelemetry[] => {
+  const slotted = slottedBlocks(blocks);
+  const missed = missedSlots(slotted);
+  const latestSlot = slotted[slotted.length - 1]?.slot;
+  const windowStart = latestSlot === undefined ? Number.POSITIVE_INFINITY : latestSlot - window + 1;
+
+  return validatorAgents.map((agent) => {
+    const own = blocks.filter((block) => block.producer === agent.id).sort((a, b) => a.height - b.height);
+    const ownMissed = missed.filter((entry) => entry.validator === agent.id);
+    const windowProposed = slotted.filter((block) => block.producer === agent.id && block.slot >= windowStart).length;
+    const windowMissed = ownMissed.filter((entry) => entry.slot >= windowStart).length;
+    const scheduled = windowProposed + windowMissed;
+    return {
+      id: agent.id,
+      role: agent.role,
+      persona: agent.persona,
+      ...(roster[agent.id] ?? { status: agent.status, since: null, lastHeartbeat: null }),
+      proposed: own.length,
+      missed: ownMissed.length,
+      averageLatency: own.length > 0 ? own.reduce((sum, block) => sum + block.latency, 0) / own.length : null,
+      uptime: scheduled > 0 ? windowProposed / scheduled : null,
+      recentLatency: own.slice(-SPARKLINE_BLOCKS).map((block) => block.latency)
+    };
+  });
+};
+
+// Collateral is registered in the explorer under `validator://<id>`.
+export const validatorCollateral = (id: string): (typeof explorerAddresses)[number] | null =>
+  explorerAddresses.find((entry) => entry.label === `validator://${id.toLowerCase()}`) ?? null;
+
+// Newest first. Missed slots only appear for blocks that report a slot; unslotted blocks fall back to height order.
+export const proposalHistory = (blocks: BlockEntry[], id: string): ProposalRow[] => {
+  const rows: ProposalRow[] = [
+    ...blocks
+      .filter((block) => block.producer === id)
+      .map((block): ProposalRow => ({ kind: "proposed", slot: block.slot ?? null, block })),
+    ...missedSlots(blocks)
+      .filter((entry) => entry.validator === id)
+      .map((entry): ProposalRow => ({ kind: "missed", slot: entry.slot }))
+  ];
+  const order = (row: ProposalRow): number => row.slot ?? (row.kind === "proposed" ? row.block.height : 0);
+  return rows.sort((a, b) => order(b) - order(a));
+};
+
+export const personaLog = (blocks: BlockEntry[], id: string): PersonaLine[] => {
+  const lines = new Map<string, PersonaLine>();
+  [...blocks]
+    .filter((block) => block.producer === id)
+    .sort((a, b) => a.height - b.height)
+    .forEach((block) => {
+      const current = lines.get(block.commentary);
+      lines.set(block.commentary, {
+        line: block.commentary,
+        count: (current?.count ?? 0) + 1,
+        lastHeight: block.height,
+        lastPosted: block.timestamp
+      });
+    });
+  return [...lines.values()].sort((a, b) => b.lastHeight - a.lastHeight);
+};
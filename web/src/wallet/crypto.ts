@@ -0,0 +1,138 @@
+export const SIGNING_ALGORITHM = "ECDSA-P256-SHA256";
+
+const KEY_PARAMS: EcKeyGenParams = { name: "ECDSA", namedCurve: "P-256" };
+
+// Order of the P-256 base point; valid private scalars lie in [1, n).
+export const P256_ORDER = BigInt("0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551");
+
+// DER prefix of a PKCS#8 P-256 key with the 32-byte private scalar appended and no public key.
+const PKCS8_P256_PREFIX = [
+  0x30, 0x41, 0x02, 0x01, 0x00, 0x30, 0x13, 0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01, 0x06, 0x08,
+  0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07, 0x04, 0x27, 0x30, 0x25, 0x02, 0x01, 0x01, 0x04, 0x20
+];
+const SIGN_PARAMS: EcdsaParams = { name: "ECDSA", hash: "SHA-256" };
+
+export type WalletKeyPair = {
+  address: string;
+  publicKey: string;
+  privateKeyJwk: JsonWebKey;
+};
+
+export type TransferPayload = {
+  from: string;
+  to: string;
+  amount: number;
+  memo?: string;
+  nonce: number;
+};
+
+export type SignedTransfer = {
+  hash: string;
+  signature: string;
+  publicKey: string;
+};
+
+export type SignatureCheck = "verified" | "invalid" | "unsigned";
+
+export const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+export const fromHex = (hex: string) => {
+  const clean = hex.replace(/^0x/, "");
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error("Malformed hex string.");
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let index = 0; index < bytes.length; index += 1) {
+    bytes[index] = parseInt(clean.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+export const base64UrlToHex = (value: string): string => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return toHex(Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)));
+};
+
+const encoder = new TextEncoder();
+
+export const sha256Hex = async (data: string | BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", typeof data === "string" ? encoder.encode(data) : data));
+
+// Address = last 20 bytes of SHA-256 over the uncompressed public key.
+export const deriveAddress = async (publicKey: string): Promise<string> => {
+  const digest = await sha256Hex(fromHex(publicKey));
+  return `0x${digest.slice(-40)}`;
+};
+
+export const canonicalTransfer = (payload: TransferPayload): string =>
+  JSON.stringify({
+    from: payload.from,
+    to: payload.to,
+    amount: payload.amount,
+    memo: payload.memo ?? null,
+    nonce: payload.nonce
+  });
+
+export const generateWalletKeyPair = async (): Promise<WalletKeyPair> => {
+  const keyPair = await crypto.subtle.generateKey(KEY_PARAMS, true, ["sign", "verify"]);
+  const publicKey = toHex(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+  const privateKeyJwk = await crypto.subtle.exportKey("jwk", keyPair.privateKey);
+  return { address: await deriveAddress(publicKey), publicKey, privateKeyJwk };
+};
+
+export const privateKeyHex = (privateKeyJwk: JsonWebKey): string => {
+  if (!privateKeyJwk.d) {
+    throw new Error("Wallet key has no private component.");
+  }
+  return base64UrlToHex(privateKeyJwk.d);
+};
+
+export const keyPairFromPrivateKey = async (hex: string): Promise<WalletKeyPair> => {
+  const clean = hex.trim().replace(/^0x/i, "");
+  if (!/^[0-9a-fA-F]{64}$/.test(clean)) {
+    throw new Error("Private key must be 32 bytes of hex.");
+  }
+  const scalar = BigInt(`0x${clean}`);
+  if (scalar === BigInt(0) || scalar >= P256_ORDER) {
+    throw new Error("Private key is outside the P-256 curve order.");
+  }
+
+  const der = new Uint8Array([...PKCS8_P256_PREFIX, ...fromHex(clean)]);
+  const privateKey = await crypto.subtle.importKey("pkcs8", der, KEY_PARAMS, true, ["sign"]);
+  const privateKeyJwk = await crypto.subtle.exportKey("jwk", privateKey);
+  if (!privateKeyJwk.x || !privateKeyJwk.y) {
+    throw new Error("This browser could not derive the public key for the imported private key.");
+  }
+  const publicKey = `04${base64UrlToHex(privateKeyJwk.x)}${base64UrlToHex(privateKeyJwk.y)}`;
+  return { address: await deriveAddress(publicKey), publicKey, privateKeyJwk };
+};
+
+export const signTransfer = async (
+  privateKeyJwk: JsonWebKey,
+  publicKey: string,
+  payload: TransferPayload
+): Promise<SignedTransfer> => {
+  const key = await crypto.subtle.importKey("jwk", privateKeyJwk, KEY_PARAMS, false, ["sign"]);
+  const message = encoder.encode(canonicalTransfer(payload));
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, key, message);
+  return { hash: `0x${await sha256Hex(message)}`, signature: toHex(signature), publicKey };
+};
+
+export const verifyTransfer = async (
+  entry: Omit<TransferPayload, "nonce"> & { nonce?: number; hash: string; signature?: string; publicKey?: string }
+): Promise<SignatureCheck> => {
+  if (!entry.signature || !entry.publicKey || entry.nonce === undefined) return "unsigned";
+  try {
+    if ((await deriveAddress(entry.publicKey)) !== entry.from.toLowerCase()) return "invalid";
+    const message = encoder.encode(canonicalTransfer({ ...entry, nonce: entry.nonce }));
+    if (`0x${await sha256Hex(message)}` !== entry.hash.toLowerCase()) return "invalid";
+    const key = await crypto.subtle.importKey("raw", fromHex(entry.publicKey), KEY_PARAMS, false, ["verify"]);
+    const valid = await crypto.subtle.verify(SIGN_PARAMS, key, fromHex(entry.signature), message);
+    return valid ? "verified" : "invalid";
+  } catch {
+    return "invalid";
+  }
+};
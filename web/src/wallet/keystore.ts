@@ -0,0 +1,127 @@
+import { fromHex, keyPairFromPrivateKey, privateKeyHex, toHex } from "./crypto";
+import type { WalletKeyPair } from "./crypto";
+
+export const KEYSTORE_VERSION = 1;
+export const KEYSTORE_MIN_PASSWORD_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310_000;
+
+export type WalletKeystore = {
+  version: typeof KEYSTORE_VERSION;
+  address: string;
+  label: string;
+  publicKey: string;
+  createdAt: string;
+  crypto: {
+    cipher: "aes-256-gcm";
+    ciphertext: string;
+    iv: string;
+    kdf: "pbkdf2";
+    kdfparams: {
+      hash: "SHA-256";
+      iterations: number;
+      salt: string;
+      dklen: 32;
+    };
+  };
+};
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+const deriveKeystoreKey = async (password: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: new Uint8Array(salt), iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptKeystore = async (
+  wallet: WalletKeyPair & { label: string },
+  password: string
+): Promise<WalletKeystore> => {
+  if (password.length < KEYSTORE_MIN_PASSWORD_LENGTH) {
+    throw new KeystoreError(`Keystore password must be at least ${KEYSTORE_MIN_PASSWORD_LENGTH} characters.`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKeystoreKey(password, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(wallet.address) },
+    key,
+    fromHex(privateKeyHex(wallet.privateKeyJwk))
+  );
+
+  return {
+    version: KEYSTORE_VERSION,
+    address: wallet.address,
+    label: wallet.label,
+    publicKey: wallet.publicKey,
+    createdAt: new Date().toISOString(),
+    crypto: {
+      cipher: "aes-256-gcm",
+      ciphertext: toHex(ciphertext),
+      iv: toHex(iv),
+      kdf: "pbkdf2",
+      kdfparams: { hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toHex(salt), dklen: 32 }
+    }
+  };
+};
+
+const isKeystore = (value: unknown): value is WalletKeystore => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<WalletKeystore>;
+  return (
+    candidate.version === KEYSTORE_VERSION &&
+    typeof candidate.address === "string" &&
+    candidate.crypto?.cipher === "aes-256-gcm" &&
+    candidate.crypto.kdf === "pbkdf2" &&
+    typeof candidate.crypto.ciphertext === "string" &&
+    typeof candidate.crypto.iv === "string" &&
+    typeof candidate.crypto.kdfparams?.salt === "string" &&
+    typeof candidate.crypto.kdfparams.iterations === "number"
+  );
+};
+
+export const decryptKeystore = async (
+  payload: unknown,
+  password: string
+): Promise<WalletKeyPair & { label: string }> => {
+  if (!isKeystore(payload)) {
+    throw new KeystoreError(`Unsupported keystore file; expected a version ${KEYSTORE_VERSION} xProtocol keystore.`);
+  }
+
+  const { crypto: params } = payload;
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKeystoreKey(password, fromHex(params.kdfparams.salt), params.kdfparams.iterations);
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromHex(params.iv), additionalData: new TextEncoder().encode(payload.address) },
+      key,
+      fromHex(params.ciphertext)
+    );
+  } catch {
+    throw new KeystoreError("Incorrect password or corrupted keystore.");
+  }
+
+  const keyPair = await keyPairFromPrivateKey(toHex(plaintext));
+  if (keyPair.address !== payload.address.toLowerCase()) {
+    throw new KeystoreError("Keystore address does not match its decrypted key.");
+  }
+  return { ...keyPair, label: payload.label || "imported" };
+};
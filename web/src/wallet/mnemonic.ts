@@ -0,0 +1,89 @@
+import { mnemonicToSeed, validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english.js";
+import { P256_ORDER, fromHex, keyPairFromPrivateKey, toHex } from "./crypto";
+import type { WalletKeyPair } from "./crypto";
+
+// SLIP-0010 derivation for NIST P-256; every level is hardened so no point arithmetic is needed.
+export const MNEMONIC_DERIVATION_PATH = "m/44'/1'/0'/0'/0'";
+
+const SLIP10_P256_SEED_KEY = "Nist256p1 seed";
+const HARDENED_OFFSET = 0x80000000;
+
+const hmacSha512 = async (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(key),
+    { name: "HMAC", hash: "SHA-512" },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, new Uint8Array(data)));
+};
+
+const toScalar = (bytes: Uint8Array): bigint => BigInt(`0x${toHex(bytes)}`);
+
+const fromScalar = (value: bigint): Uint8Array => fromHex(value.toString(16).padStart(64, "0"));
+
+const ser32 = (index: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, index);
+  return bytes;
+};
+
+const parsePath = (path: string): number[] => {
+  const segments = path.split("/");
+  if (segments[0] !== "m") {
+    throw new Error(`Derivation path ${path} must start at m.`);
+  }
+  return segments.slice(1).map((segment) => {
+    const match = segment.match(/^(\d+)'$/);
+    if (!match) {
+      throw new Error(`Only hardened segments are supported, got ${segment}.`);
+    }
+    return Number(match[1]) + HARDENED_OFFSET;
+  });
+};
+
+export const derivePrivateKeyFromSeed = async (
+  seed: Uint8Array,
+  path = MNEMONIC_DERIVATION_PATH
+): Promise<string> => {
+  let digest = await hmacSha512(new TextEncoder().encode(SLIP10_P256_SEED_KEY), seed);
+  while (toScalar(digest.slice(0, 32)) === BigInt(0) || toScalar(digest.slice(0, 32)) >= P256_ORDER) {
+    digest = await hmacSha512(new TextEncoder().encode(SLIP10_P256_SEED_KEY), digest);
+  }
+  let key = toScalar(digest.slice(0, 32));
+  let chainCode = digest.slice(32);
+
+  for (const index of parsePath(path)) {
+    let data = new Uint8Array([0x00, ...fromScalar(key), ...ser32(index)]);
+    for (;;) {
+      const child = await hmacSha512(chainCode, data);
+      const tweak = toScalar(child.slice(0, 32));
+      const childKey = (tweak + key) % P256_ORDER;
+      if (tweak < P256_ORDER && childKey !== BigInt(0)) {
+        key = childKey;
+        chainCode = child.slice(32);
+        break;
+      }
+      data = new Uint8Array([0x01, ...child.slice(32), ...ser32(index)]);
+    }
+  }
+
+  return toHex(fromScalar(key));
+};
+
+export const normaliseMnemonic = (phrase: string): string =>
+  phrase.trim().toLowerCase().split(/\s+/).join(" ");
+
+export const looksLikeMnemonic = (value: string): boolean =>
+  [12, 15, 18, 21, 24].includes(normaliseMnemonic(value).split(" ").length);
+
+export const keyPairFromMnemonic = async (phrase: string, passphrase = ""): Promise<WalletKeyPair> => {
+  const mnemonic = normaliseMnemonic(phrase);
+  if (!validateMnemonic(mnemonic, wordlist)) {
+    throw new Error("Mnemonic failed BIP-39 word or checksum validation.");
+  }
+  const seed = await mnemonicToSeed(mnemonic, passphrase);
+  return keyPairFromPrivateKey(await derivePrivateKeyFromSeed(seed));
+};